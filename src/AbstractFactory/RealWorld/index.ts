@@ -1,3 +1,9 @@
+import { constants as fsConstants } from 'fs';
+import * as nodeFs from 'fs/promises';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+
 /**
  * EN: Real World Example for the Abstract Factory design pattern
  *
@@ -16,63 +22,807 @@
 /**
  * EN: First of all create some abstract products = connectors
  */
-export abstract class DB {
+export interface HealthStatus {
+    status: 'healthy' | 'unhealthy';
+    latencyMs: number;
+    error?: string;
+}
+
+/**
+ * EN: All connectors share the same lifecycle: init() before first use,
+ * dispose() when the application shuts down, and healthCheck() at any time in
+ * between. The health check times the connector's ping().
+ */
+export abstract class Connector {
+    public async init(): Promise<void> {
+    }
+
+    public async dispose(): Promise<void> {
+    }
+
+    public async healthCheck(): Promise<HealthStatus> {
+        const start = Date.now();
+        try {
+            await this.ping();
+            return { status: 'healthy', latencyMs: Date.now() - start };
+        } catch (error) {
+            return {
+                status: 'unhealthy',
+                latencyMs: Date.now() - start,
+                error: error.message,
+            };
+        }
+    }
+
+    protected async ping(): Promise<void> {
+    }
+}
+
+export interface Row {
+    id?: number;
+    [column: string]: any;
+}
+
+export type RowPredicate<T extends Row> = (row: T) => boolean;
+
+/**
+ * EN: Besides connecting, every DB variant offers a small table API. The
+ * update and delete operations resolve to the number of affected rows.
+ */
+export abstract class DB extends Connector {
     public abstract connect();
+    public abstract insert<T extends Row>(table: string, row: T): Promise<T>;
+    public abstract find<T extends Row>(
+        table: string,
+        predicate?: RowPredicate<T>,
+    ): Promise<T[]>;
+    public abstract update<T extends Row>(
+        table: string,
+        predicate: RowPredicate<T>,
+        changes: Partial<T>,
+    ): Promise<number>;
+    public abstract delete<T extends Row>(
+        table: string,
+        predicate: RowPredicate<T>,
+    ): Promise<number>;
+    public abstract beginTransaction(): Promise<void>;
+    public abstract commit(): Promise<void>;
+    public abstract rollback(): Promise<void>;
+
+    public async init(): Promise<void> {
+        this.connect();
+    }
 }
 
-export abstract class FS {
-    public abstract readFile(filename: string);
+/**
+ * EN: Every FS variant honours the same contract: paths are relative to the
+ * FS root and can't leave it, a missing file or directory is reported with a
+ * FileNotFoundError, a directory used as a file with an IsADirectoryError
+ * and a file used as a directory on write with a NotADirectoryError,
+ * whichever storage sits behind it.
+ */
+export abstract class FS extends Connector {
+    public abstract readFile(filename: string): Promise<string>;
+    public abstract writeFile(filename: string, content: string): Promise<void>;
+    public abstract listDir(dirname: string): Promise<string[]>;
+    public abstract exists(filename: string): Promise<boolean>;
+    public abstract delete(filename: string): Promise<void>;
+
+    /**
+     * EN: Turns a path into one relative to the root, e.g. '/a/../b/' into
+     * 'b'. Leading '..' segments stop at the root, and the root itself is ''.
+     */
+    protected normalize(filename: string): string {
+        return path.posix.normalize(`/${filename}`).slice(1).replace(/\/$/, '');
+    }
 }
 
-export abstract class LogProvider {
-    public abstract log(message: string);
+export class FileNotFoundError extends Error {
+    public readonly code = 'ENOENT';
+
+    constructor(public readonly path: string) {
+        super(`ENOENT: no such file or directory, '${path}'`);
+        this.name = 'FileNotFoundError';
+    }
+}
+
+export class IsADirectoryError extends Error {
+    public readonly code = 'EISDIR';
+
+    constructor(public readonly path: string) {
+        super(`EISDIR: illegal operation on a directory, '${path}'`);
+        this.name = 'IsADirectoryError';
+    }
+}
+
+export class NotADirectoryError extends Error {
+    public readonly code = 'ENOTDIR';
+
+    constructor(public readonly path: string) {
+        super(`ENOTDIR: not a directory, '${path}'`);
+        this.name = 'NotADirectoryError';
+    }
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export interface LogContext {
+    [field: string]: any;
+}
+
+export interface LogEntry {
+    time: string;
+    level: LogLevel;
+    message: string;
+    context: LogContext;
+}
+
+export interface LogProviderOptions {
+    minLevel?: LogLevel;
+    redactKeys?: string[];
+}
+
+/**
+ * EN: The base LogProvider turns every call into a structured LogEntry:
+ * entries below the minimum level are dropped, and the values of the
+ * configured secret keys are redacted at any depth of the context. Concrete
+ * providers only decide where the entries go.
+ */
+export abstract class LogProvider extends Connector {
+    private minLevel: LogLevel;
+
+    private redactKeys: string[];
+
+    constructor(options: LogProviderOptions = {}) {
+        super();
+        this.minLevel = options.minLevel || 'debug';
+        this.redactKeys = (options.redactKeys || []).map(k => k.toLowerCase());
+    }
+
+    public debug(message: string, context: LogContext = {}) {
+        this.log(message, context, 'debug');
+    }
+
+    public info(message: string, context: LogContext = {}) {
+        this.log(message, context, 'info');
+    }
+
+    public warn(message: string, context: LogContext = {}) {
+        this.log(message, context, 'warn');
+    }
+
+    public error(message: string, context: LogContext = {}) {
+        this.log(message, context, 'error');
+    }
+
+    public log(
+        message: string,
+        context: LogContext = {},
+        level: LogLevel = 'info',
+    ) {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.minLevel)) {
+            return;
+        }
+        this.write({
+            level,
+            message,
+            time: new Date().toISOString(),
+            context: this.redact(context),
+        });
+    }
+
+    /**
+     * EN: Resolves once every entry logged so far has been delivered.
+     */
+    public async flush(): Promise<void> {
+    }
+
+    public async dispose(): Promise<void> {
+        await this.flush();
+    }
+
+    protected abstract write(entry: LogEntry): void;
+
+    /**
+     * EN: Entries are serialized as JSON lines.
+     */
+    protected format(entry: LogEntry): string {
+        return JSON.stringify(entry);
+    }
+
+    /**
+     * EN: Only arrays and plain objects are copied. Other objects, such as
+     * Dates, keep their own JSON form, and Errors, which have none, are
+     * logged by name, message and stack.
+     */
+    private redact(value: any): any {
+        if (Array.isArray(value)) {
+            return value.map(item => this.redact(item));
+        }
+        if (value instanceof Error) {
+            const { name, message, stack } = value;
+            return { name, message, stack };
+        }
+        if (value === null || typeof value !== 'object') {
+            return value;
+        }
+        const prototype = Object.getPrototypeOf(value);
+        if (prototype !== Object.prototype && prototype !== null) {
+            return value;
+        }
+        const redacted: LogContext = {};
+        for (const key of Object.keys(value)) {
+            redacted[key] = this.redactKeys.indexOf(key.toLowerCase()) !== -1
+                ? '[REDACTED]'
+                : this.redact(value[key]);
+        }
+        return redacted;
+    }
 }
 
 /**
  * EN: Declare the different concrete product variants
  */
+/**
+ * EN: Talking to MySQL is out of the scope of this example, so this variant
+ * only reports the calls it receives.
+ */
 export class MySQLDB extends DB {
     public connect() {
         console.log('Connected to MySQL');
     }
+
+    public async dispose(): Promise<void> {
+        console.log('Disconnected from MySQL');
+    }
+
+    protected async ping(): Promise<void> {
+        console.log('SELECT 1');
+    }
+
+    public async insert<T extends Row>(table: string, row: T): Promise<T> {
+        console.log(`INSERT INTO ${table}`);
+        return row;
+    }
+
+    public async find<T extends Row>(table: string): Promise<T[]> {
+        console.log(`SELECT FROM ${table}`);
+        return [];
+    }
+
+    public async update(table: string): Promise<number> {
+        console.log(`UPDATE ${table}`);
+        return 0;
+    }
+
+    public async delete(table: string): Promise<number> {
+        console.log(`DELETE FROM ${table}`);
+        return 0;
+    }
+
+    public async beginTransaction(): Promise<void> {
+        console.log('START TRANSACTION');
+    }
+
+    public async commit(): Promise<void> {
+        console.log('COMMIT');
+    }
+
+    public async rollback(): Promise<void> {
+        console.log('ROLLBACK');
+    }
 }
 
+/**
+ * EN: The mock keeps every table in memory. Rows get an auto-incremented id
+ * when inserted without one, and are deep-copied on the way in and out, so
+ * callers can't change stored data behind the DB's back. A transaction takes
+ * a snapshot of all tables, which a rollback brings back.
+ */
 export class InMemoryMockDB extends DB {
+    private tables: { [table: string]: Row[] } = {};
+
+    private nextIds: { [table: string]: number } = {};
+
+    private snapshot: { [table: string]: Row[] } = null;
+
     public connect() {
         console.log('Mocking DB in memory');
     }
+
+    public async insert<T extends Row>(table: string, row: T): Promise<T> {
+        const rows = this.getTable(table);
+        const id = row.id !== undefined ? row.id : this.nextIds[table] || 1;
+        if (rows.some(r => r.id === id)) {
+            throw new Error(`Duplicate id ${id} in table ${table}`);
+        }
+        this.nextIds[table] = Math.max(this.nextIds[table] || 1, id + 1);
+
+        const stored = this.copy({ ...row, id });
+        rows.push(stored);
+        return this.copy(stored) as T;
+    }
+
+    public async find<T extends Row>(
+        table: string,
+        predicate: RowPredicate<T> = () => true,
+    ): Promise<T[]> {
+        return (this.getTable(table) as T[])
+            .filter(row => predicate(this.copy(row)))
+            .map(row => this.copy(row));
+    }
+
+    public async update<T extends Row>(
+        table: string,
+        predicate: RowPredicate<T>,
+        changes: Partial<T>,
+    ): Promise<number> {
+        const rows = this.getTable(table) as T[];
+        let count = 0;
+        rows.forEach((row, index) => {
+            if (predicate(this.copy(row))) {
+                rows[index] = this.copy({ ...row, ...changes, id: row.id });
+                count += 1;
+            }
+        });
+        return count;
+    }
+
+    public async delete<T extends Row>(
+        table: string,
+        predicate: RowPredicate<T>,
+    ): Promise<number> {
+        const rows = this.getTable(table) as T[];
+        const kept = rows.filter(row => !predicate(this.copy(row)));
+        this.tables[table] = kept;
+        return rows.length - kept.length;
+    }
+
+    public async beginTransaction(): Promise<void> {
+        if (this.snapshot) {
+            throw new Error('A transaction is already in progress');
+        }
+        this.snapshot = this.copyTables();
+    }
+
+    public async commit(): Promise<void> {
+        this.endTransaction();
+    }
+
+    public async rollback(): Promise<void> {
+        this.tables = this.endTransaction();
+    }
+
+    private endTransaction(): { [table: string]: Row[] } {
+        if (!this.snapshot) {
+            throw new Error('No transaction in progress');
+        }
+        const snapshot = this.snapshot;
+        this.snapshot = null;
+        return snapshot;
+    }
+
+    private getTable(table: string): Row[] {
+        if (!this.tables[table]) {
+            this.tables[table] = [];
+        }
+        return this.tables[table];
+    }
+
+    private copyTables(): { [table: string]: Row[] } {
+        const copy: { [table: string]: Row[] } = {};
+        for (const table of Object.keys(this.tables)) {
+            copy[table] = this.tables[table].map(row => this.copy(row));
+        }
+        return copy;
+    }
+
+    private copy(value: any): any {
+        if (Array.isArray(value)) {
+            return value.map(item => this.copy(item));
+        }
+        if (value instanceof Date) {
+            return new Date(value.getTime());
+        }
+        if (value === null || typeof value !== 'object') {
+            return value;
+        }
+        const copy: Row = {};
+        for (const key of Object.keys(value)) {
+            copy[key] = this.copy(value[key]);
+        }
+        return copy;
+    }
 }
 
+/**
+ * EN: Talking to S3 is out of the scope of this example, so this variant only
+ * reports the calls it receives.
+ */
 export class S3FS extends FS {
-    public readFile(filename: string) {
+    public async readFile(filename: string): Promise<string> {
         console.log(`Reading file ${filename} from S3`);
+        return '';
+    }
+
+    public async writeFile(filename: string, content: string): Promise<void> {
+        console.log(`Writing file ${filename} to S3`);
+    }
+
+    public async listDir(dirname: string): Promise<string[]> {
+        console.log(`Listing directory ${dirname} on S3`);
+        return [];
+    }
+
+    public async exists(filename: string): Promise<boolean> {
+        console.log(`Checking file ${filename} on S3`);
+        return false;
+    }
+
+    public async delete(filename: string): Promise<void> {
+        console.log(`Deleting file ${filename} from S3`);
+    }
+
+    protected async ping(): Promise<void> {
+        console.log('Checking the S3 bucket');
     }
 }
 
 export class RealFS extends FS {
-    public readFile(filename: string) {
-        console.log(`Reading file ${filename} from a real FS`);
+    constructor(private rootDir: string = process.cwd()) {
+        super();
+    }
+
+    public async readFile(filename: string): Promise<string> {
+        return this.call(filename, file => nodeFs.readFile(file, 'utf8'));
+    }
+
+    /**
+     * EN: Missing parent directories are created, just like MockFS does. A
+     * file on the way to them makes the write fail.
+     */
+    public async writeFile(filename: string, content: string): Promise<void> {
+        try {
+            await nodeFs.mkdir(
+                path.dirname(this.resolve(filename)),
+                { recursive: true },
+            );
+        } catch (error) {
+            if (error.code === 'EEXIST' || error.code === 'ENOTDIR') {
+                throw new NotADirectoryError(filename);
+            }
+            throw error;
+        }
+        await this.call(filename, file => nodeFs.writeFile(file, content, 'utf8'));
+    }
+
+    public async listDir(dirname: string): Promise<string[]> {
+        const names = await this.call(dirname, dir => nodeFs.readdir(dir));
+        return names.sort();
+    }
+
+    public async exists(filename: string): Promise<boolean> {
+        try {
+            await this.call(filename, file => nodeFs.access(file));
+            return true;
+        } catch (error) {
+            if (error instanceof FileNotFoundError) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    public async delete(filename: string): Promise<void> {
+        await this.call(filename, file => nodeFs.unlink(file));
+    }
+
+    protected async ping(): Promise<void> {
+        await this.call('.', dir => nodeFs.access(dir));
+    }
+
+    private resolve(filename: string): string {
+        return path.join(path.resolve(this.rootDir), this.normalize(filename));
+    }
+
+    /**
+     * EN: Runs a node fs call on the path under rootDir and translates its
+     * ENOENT, ENOTDIR and EISDIR errors into the errors of the FS contract.
+     */
+    private async call<T>(
+        filename: string,
+        operation: (file: string) => Promise<T>,
+    ): Promise<T> {
+        try {
+            return await operation(this.resolve(filename));
+        } catch (error) {
+            if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+                throw new FileNotFoundError(filename);
+            }
+            if (error.code === 'EISDIR') {
+                throw new IsADirectoryError(filename);
+            }
+            throw error;
+        }
     }
 }
 
+/**
+ * EN: The mock keeps the whole file system in memory. Directories are not
+ * stored: a directory exists as long as some file lives under it, and the
+ * root always exists.
+ */
 export class MockFS extends FS {
-    public readFile(filename: string) {
-        console.log(`Mocking a read file call to ${filename}`);
+    private files = new Map<string, string>();
+
+    constructor(seed: { [filename: string]: string } = {}) {
+        super();
+        for (const filename of Object.keys(seed)) {
+            this.store(filename, seed[filename]);
+        }
+    }
+
+    public async readFile(filename: string): Promise<string> {
+        const file = this.normalize(filename);
+        if (!this.files.has(file)) {
+            throw this.isDirectory(file)
+                ? new IsADirectoryError(filename)
+                : new FileNotFoundError(filename);
+        }
+        return this.files.get(file);
+    }
+
+    public async writeFile(filename: string, content: string): Promise<void> {
+        this.store(filename, content);
+    }
+
+    public async listDir(dirname: string): Promise<string[]> {
+        const dir = this.normalize(dirname);
+        const prefix = dir === '' ? '' : `${dir}/`;
+        const names = new Set<string>();
+        for (const file of Array.from(this.files.keys())) {
+            if (file.startsWith(prefix)) {
+                names.add(file.slice(prefix.length).split('/')[0]);
+            }
+        }
+        if (names.size === 0 && dir !== '') {
+            throw new FileNotFoundError(dirname);
+        }
+        return Array.from(names).sort();
+    }
+
+    public async exists(filename: string): Promise<boolean> {
+        const file = this.normalize(filename);
+        return this.files.has(file) || this.isDirectory(file);
+    }
+
+    public async delete(filename: string): Promise<void> {
+        const file = this.normalize(filename);
+        if (this.isDirectory(file)) {
+            throw new IsADirectoryError(filename);
+        }
+        if (!this.files.delete(file)) {
+            throw new FileNotFoundError(filename);
+        }
+    }
+
+    private isDirectory(file: string): boolean {
+        return file === ''
+            || Array.from(this.files.keys()).some(f => f.startsWith(`${file}/`));
+    }
+
+    /**
+     * EN: Rejects the same clashes a real disk does: a file can't replace a
+     * directory (or the root), nor be put under another file.
+     */
+    private store(filename: string, content: string): void {
+        const file = this.normalize(filename);
+        if (this.isDirectory(file)) {
+            throw new IsADirectoryError(filename);
+        }
+        const segments = file.split('/');
+        for (let i = 1; i < segments.length; i += 1) {
+            if (this.files.has(segments.slice(0, i).join('/'))) {
+                throw new NotADirectoryError(filename);
+            }
+        }
+        this.files.set(file, content);
     }
 }
 
 export class ConsoleLogProvider extends LogProvider {
-    public log(message: string) {
-        console.log(`From console: ${message}`);
+    protected write(entry: LogEntry) {
+        console.log(this.format(entry));
     }
 }
 
+export interface RotatingFileLogProviderOptions extends LogProviderOptions {
+    filename: string;
+    maxBytes?: number;
+    maxFiles?: number;
+}
+
+/**
+ * EN: Appends entries to a file. Once the file grows past maxBytes it is
+ * renamed to "<filename>.1", older files shift to ".2", ".3"... and anything
+ * beyond maxFiles is dropped.
+ */
+export class RotatingFileLogProvider extends LogProvider {
+    private filename: string;
+
+    private maxBytes: number;
+
+    private maxFiles: number;
+
+    private size: number = null;
+
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(options: RotatingFileLogProviderOptions) {
+        super(options);
+        this.filename = options.filename;
+        this.maxBytes = options.maxBytes || 1024 * 1024;
+        this.maxFiles = options.maxFiles || 5;
+    }
+
+    public flush(): Promise<void> {
+        return this.pending;
+    }
+
+    /**
+     * EN: Writes are queued, so entries land in the file in logging order.
+     */
+    protected write(entry: LogEntry) {
+        const line = `${this.format(entry)}\n`;
+        this.pending = this.pending
+            .then(() => this.append(line))
+            .catch(error => console.error(`Unable to write log: ${error.message}`));
+    }
+
+    /**
+     * EN: Both appending and rotating need write access to the directory.
+     */
+    protected async ping(): Promise<void> {
+        await nodeFs.access(path.dirname(this.filename), fsConstants.W_OK);
+    }
+
+    private async append(line: string): Promise<void> {
+        if (this.size === null) {
+            this.size = await this.getFileSize();
+        }
+        const bytes = Buffer.byteLength(line);
+        if (this.size > 0 && this.size + bytes > this.maxBytes) {
+            await this.rotate();
+        }
+        await nodeFs.appendFile(this.filename, line, 'utf8');
+        this.size += bytes;
+    }
+
+    private async rotate(): Promise<void> {
+        for (let i = this.maxFiles - 1; i >= 0; i -= 1) {
+            const from = i === 0 ? this.filename : `${this.filename}.${i}`;
+            try {
+                await nodeFs.rename(from, `${this.filename}.${i + 1}`);
+            } catch (error) {
+                if (error.code !== 'ENOENT') {
+                    throw error;
+                }
+            }
+        }
+        this.size = 0;
+    }
+
+    private async getFileSize(): Promise<number> {
+        try {
+            return (await nodeFs.stat(this.filename)).size;
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                return 0;
+            }
+            throw error;
+        }
+    }
+}
+
+export interface SentryLogProviderOptions extends LogProviderOptions {
+    endpoint: string;
+    batchSize?: number;
+    timeoutMs?: number;
+}
+
+/**
+ * EN: Buffers entries and posts them to the collector endpoint in batches of
+ * batchSize events. Call flush() to send a partial batch. A request that gets
+ * no response within timeoutMs is aborted.
+ */
 export class SentryLogProvider extends LogProvider {
-    public log(message: string) {
-        console.log(`From Sentry: ${message}`);
+    private endpoint: string;
+
+    private batchSize: number;
+
+    private timeoutMs: number;
+
+    private buffer: LogEntry[] = [];
+
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(options: SentryLogProviderOptions) {
+        super(options);
+        this.endpoint = options.endpoint;
+        this.batchSize = options.batchSize || 10;
+        this.timeoutMs = options.timeoutMs || 5000;
+    }
+
+    /**
+     * EN: Each flush reports only the failure of its own batch, so one failed
+     * post does not block the batches after it.
+     */
+    public flush(): Promise<void> {
+        const events = this.buffer;
+        this.buffer = [];
+        if (events.length === 0) {
+            return this.pending;
+        }
+        const sent = this.pending.then(() => this.post(events));
+        this.pending = sent.catch(() => undefined);
+        return sent;
+    }
+
+    protected write(entry: LogEntry) {
+        this.buffer.push(entry);
+        if (this.buffer.length >= this.batchSize) {
+            this.flush().catch(error => console.error(
+                `Unable to send events to Sentry: ${error.message}`,
+            ));
+        }
+    }
+
+    /**
+     * EN: Any answer from the collector, short of a server error, shows that
+     * it is reachable.
+     */
+    protected async ping(): Promise<void> {
+        const statusCode = await this.send('HEAD');
+        if (statusCode >= 500) {
+            throw new Error(`Collector responded with ${statusCode}`);
+        }
+    }
+
+    private async post(events: LogEntry[]): Promise<void> {
+        const statusCode = await this.send('POST', JSON.stringify({ events }));
+        if (statusCode < 200 || statusCode >= 300) {
+            throw new Error(`Collector responded with ${statusCode}`);
+        }
+    }
+
+    private send(method: string, body: string = ''): Promise<number> {
+        const client = this.endpoint.startsWith('https:') ? https : http;
+
+        return new Promise<number>((resolve, reject) => {
+            const options = {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(body),
+                },
+            };
+            const request = client.request(this.endpoint, options, (response) => {
+                response.resume();
+                resolve(response.statusCode);
+            });
+            request.setTimeout(this.timeoutMs, () => request.destroy(new Error(
+                `Collector did not respond within ${this.timeoutMs} ms`,
+            )));
+            request.on('error', reject);
+            request.end(body);
+        });
     }
 }
 
+const SECRET_KEYS = ['password', 'token', 'apiKey'];
+
 /**
  * EN: Then create the abstract factory
  */
@@ -93,11 +843,13 @@ export class DevEnvironmentFactory extends EnvironmentFactory {
     }
 
     public getFS(): FS {
-        return new MockFS();
+        return new MockFS({
+            'document.txt': 'Hello from the mock file system',
+        });
     }
 
     public getLogProvider(): LogProvider {
-        return new ConsoleLogProvider();
+        return new ConsoleLogProvider({ redactKeys: SECRET_KEYS });
     }
 }
 
@@ -111,31 +863,261 @@ export class ProdEnvironmentFactory extends EnvironmentFactory {
     }
 
     public getLogProvider(): LogProvider {
-        return new SentryLogProvider();
+        return new SentryLogProvider({
+            endpoint: process.env.SENTRY_ENDPOINT
+                || 'http://localhost:9000/api/events',
+            minLevel: 'info',
+            redactKeys: SECRET_KEYS,
+        });
+    }
+}
+
+/**
+ * EN: Factories don't have to pick all their products from the same family.
+ * Staging runs against the real file system, but keeps the database in
+ * memory so it can be reset between deployments.
+ */
+export class StagingEnvironmentFactory extends EnvironmentFactory {
+    public getDB(): DB {
+        return new InMemoryMockDB();
+    }
+
+    public getFS(): FS {
+        return new RealFS();
+    }
+
+    public getLogProvider(): LogProvider {
+        return new RotatingFileLogProvider({
+            filename: 'staging.log',
+            minLevel: 'info',
+            redactKeys: SECRET_KEYS,
+        });
+    }
+}
+
+/**
+ * EN: The registry maps environment names to concrete factories, so the
+ * client code can pick a factory from configuration instead of hard-coding
+ * a class name.
+ */
+export class EnvironmentFactoryRegistry {
+    private creators = new Map<string, () => EnvironmentFactory>();
+
+    public register(
+        name: string,
+        creator: () => EnvironmentFactory,
+    ): EnvironmentFactoryRegistry {
+        this.creators.set(name, creator);
+        return this;
+    }
+
+    public getNames(): string[] {
+        return Array.from(this.creators.keys());
+    }
+
+    public resolve(name: string): EnvironmentFactory {
+        const creator = this.creators.get(name);
+        if (!creator) {
+            throw new Error(
+                `Unknown environment "${name}". Registered environments: `
+                + `${this.getNames().join(', ')}`,
+            );
+        }
+        return creator();
+    }
+
+    /**
+     * EN: Resolves the factory named by an environment variable, or the
+     * fallback name if the variable is not set. It reads APP_ENV rather than
+     * NODE_ENV, which tools set to values of their own such as "test".
+     */
+    public resolveFromEnv(
+        variable: string = 'APP_ENV',
+        fallback: string = 'development',
+    ): EnvironmentFactory {
+        return this.resolve(process.env[variable] || fallback);
+    }
+
+    /**
+     * EN: Resolves the factory named by the "environment" key of a JSON
+     * config file, e.g. { "environment": "staging" }.
+     */
+    public async resolveFromConfigFile(
+        filename: string,
+    ): Promise<EnvironmentFactory> {
+        const config = JSON.parse(await nodeFs.readFile(filename, 'utf8'));
+        if (config === null || typeof config.environment !== 'string') {
+            throw new Error(
+                `Config file ${filename} has no "environment" name`,
+            );
+        }
+        return this.resolve(config.environment);
     }
 }
 
+export const environments = new EnvironmentFactoryRegistry()
+    .register('development', () => new DevEnvironmentFactory())
+    .register('staging', () => new StagingEnvironmentFactory())
+    .register('production', () => new ProdEnvironmentFactory());
+
+export interface HealthReport {
+    status: 'healthy' | 'unhealthy';
+    connectors: { [name: string]: HealthStatus };
+}
+
 /**
- * EN: The client function receives a factory to produce what it needs to
- * execute the application. It's not concerned about the environment.
+ * EN: The Environment holds the connectors produced by a factory and manages
+ * their lifecycle. Connectors are started in order (logs first, so the others
+ * can report problems) and stopped in reverse order.
  */
-function client(environmentFactory: EnvironmentFactory) {
-    const db = environmentFactory.getDB();
-    db.connect();
+export class Environment {
+    public readonly logProvider: LogProvider;
+
+    public readonly fs: FS;
 
-    const fs = environmentFactory.getFS();
-    fs.readFile('document.txt');
+    public readonly db: DB;
+
+    private started: Connector[] = [];
+
+    private stopSignals: NodeJS.Signals[] = [];
+
+    private onStopSignal = () => {
+        this.stop()
+            .then(() => process.exit(0))
+            .catch((error) => {
+                console.error(error.message);
+                process.exit(1);
+            });
+    }
+
+    constructor(environmentFactory: EnvironmentFactory) {
+        this.logProvider = environmentFactory.getLogProvider();
+        this.fs = environmentFactory.getFS();
+        this.db = environmentFactory.getDB();
+    }
+
+    /**
+     * EN: If a connector fails to start, the ones already started are stopped
+     * before the error is rethrown.
+     */
+    public async start(): Promise<void> {
+        for (const connector of this.getConnectors()) {
+            try {
+                await connector.init();
+            } catch (error) {
+                await this.stop();
+                throw error;
+            }
+            this.started.push(connector);
+        }
+    }
+
+    /**
+     * EN: Stops every started connector, even if some of them fail to stop.
+     * The first error is rethrown at the end.
+     */
+    public async stop(): Promise<void> {
+        this.removeStopSignals();
+        let firstError: Error = null;
+        while (this.started.length > 0) {
+            try {
+                await this.started.pop().dispose();
+            } catch (error) {
+                firstError = firstError || error;
+            }
+        }
+        if (firstError) {
+            throw firstError;
+        }
+    }
+
+    public async healthCheck(): Promise<HealthReport> {
+        const names = ['logProvider', 'fs', 'db'];
+        const statuses = await Promise.all(
+            this.getConnectors().map(connector => connector.healthCheck()),
+        );
+        const report: HealthReport = { status: 'healthy', connectors: {} };
+        statuses.forEach((status, index) => {
+            report.connectors[names[index]] = status;
+            if (status.status === 'unhealthy') {
+                report.status = 'unhealthy';
+            }
+        });
+        return report;
+    }
 
-    const logProvider = environmentFactory.getLogProvider();
-    logProvider.log('hello world');
+    /**
+     * EN: Stops the environment gracefully when the process receives one of
+     * the given signals.
+     */
+    public stopOnSignals(signals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT']) {
+        this.removeStopSignals();
+        this.stopSignals = signals;
+        for (const signal of signals) {
+            process.once(signal, this.onStopSignal);
+        }
+    }
+
+    private removeStopSignals() {
+        for (const signal of this.stopSignals) {
+            process.removeListener(signal, this.onStopSignal);
+        }
+        this.stopSignals = [];
+    }
+
+    private getConnectors(): Connector[] {
+        return [this.logProvider, this.fs, this.db];
+    }
+}
+
+/**
+ * EN: The client function receives an environment built from a factory,
+ * with everything it needs to execute the application. It's not concerned
+ * about which environment that is.
+ */
+async function client(environment: Environment) {
+    const { db, fs, logProvider } = environment;
+    logProvider.info('hello world', { user: 'admin', password: 'secret' });
+
+    await db.beginTransaction();
+    await db.insert('visits', { page: 'document.txt' });
+    await db.commit();
+    const visits = await db.find('visits');
+    logProvider.debug('Visit recorded', { visits: visits.length });
+
+    if (await fs.exists('document.txt')) {
+        logProvider.info('Document read', {
+            content: await fs.readFile('document.txt'),
+        });
+    } else {
+        logProvider.warn('Document not found', { filename: 'document.txt' });
+    }
+
+    const health = await environment.healthCheck();
+    logProvider.info('Health check', { ...health });
 }
 
 /**
- * EN: Based on an environment variable, inject the concrete factory
- * implementation of the environment to the client function
+ * EN: Based on a config file (APP_CONFIG) or an environment variable
+ * (APP_ENV), inject the concrete factory implementation of the environment
+ * to the client function
  */
-if (process.env.NODE_ENV === 'production') {
-    client(new ProdEnvironmentFactory());
-} else {
-    client(new DevEnvironmentFactory());
+async function main() {
+    const factory = process.env.APP_CONFIG
+        ? await environments.resolveFromConfigFile(process.env.APP_CONFIG)
+        : environments.resolveFromEnv();
+
+    const environment = new Environment(factory);
+    await environment.start();
+    environment.stopOnSignals();
+    try {
+        await client(environment);
+    } finally {
+        await environment.stop();
+    }
 }
+
+main().catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+});
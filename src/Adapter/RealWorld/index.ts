@@ -8,12 +8,214 @@
  * into the expected formats.
  */
 
+import * as fs from 'fs/promises';
+
+/**
+ * EN: Distances and prices travel between the client, the adapter and the
+ * adaptee as value objects, so a unit or a currency is never lost along the
+ * way.
+ */
+export type DistanceUnit = 'km' | 'mi';
+
+export class Distance {
+    private static readonly METERS_PER_UNIT = { km: 1000, mi: 1609.344 };
+
+    private constructor(private readonly meters: number) {
+    }
+
+    public static of(value: number, unit: DistanceUnit): Distance {
+        if (!Number.isFinite(value) || value < 0) {
+            throw new Error(`Invalid distance: ${value} ${unit}`);
+        }
+        return new Distance(value * Distance.METERS_PER_UNIT[unit]);
+    }
+
+    public static kilometers(value: number): Distance {
+        return Distance.of(value, 'km');
+    }
+
+    public static miles(value: number): Distance {
+        return Distance.of(value, 'mi');
+    }
+
+    public in(unit: DistanceUnit): number {
+        return this.meters / Distance.METERS_PER_UNIT[unit];
+    }
+
+    public toKilometers(): number {
+        return this.in('km');
+    }
+
+    public toMiles(): number {
+        return this.in('mi');
+    }
+}
+
+/**
+ * EN: Currencies are ISO 4217 codes, e.g. 'EUR' or 'GBP'.
+ */
+export type Currency = string;
+
+export interface ExchangeRateProvider {
+    getRate(from: Currency, to: Currency): number;
+}
+
+export class Money {
+    constructor(
+        public readonly amount: number,
+        public readonly currency: Currency) {
+    }
+
+    public add(other: Money): Money {
+        if (other.currency !== this.currency) {
+            throw new Error(
+                `Cannot add ${other.currency} to ${this.currency}`,
+            );
+        }
+        return new Money(this.amount + other.amount, this.currency);
+    }
+
+    public subtract(other: Money): Money {
+        return this.add(other.multiply(-1));
+    }
+
+    public multiply(factor: number): Money {
+        return new Money(this.amount * factor, this.currency);
+    }
+
+    public convertTo(currency: Currency, rates: ExchangeRateProvider): Money {
+        if (currency === this.currency) {
+            return this;
+        }
+        const rate = rates.getRate(this.currency, currency);
+        return new Money(this.amount * rate, currency);
+    }
+
+    /**
+     * EN: Rounds the amount to whole cents, half away from zero. The amount
+     * in cents is first cut to 15 significant digits, so that binary
+     * floating point noise doesn't turn e.g. 1.005 into 1.00.
+     */
+    public round(): Money {
+        const cents = Number((Math.abs(this.amount) * 100).toPrecision(15));
+        return new Money(
+            Math.sign(this.amount) * Math.round(cents) / 100,
+            this.currency,
+        );
+    }
+
+    public toString(): string {
+        return `${this.amount.toFixed(2)} ${this.currency}`;
+    }
+}
+
+/**
+ * EN: Exchange rates from a fixed table, e.g. { GBP: { EUR: 1.15 } }. The
+ * inverse rate is used when only the opposite direction is listed.
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+    constructor(
+        private rates: { [from: string]: { [to: string]: number } }) {
+    }
+
+    public getRate(from: Currency, to: Currency): number {
+        if (from === to) {
+            return 1;
+        }
+        if (this.rates[from] && this.rates[from][to]) {
+            return this.rates[from][to];
+        }
+        if (this.rates[to] && this.rates[to][from]) {
+            return 1 / this.rates[to][from];
+        }
+        throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+}
+
+/**
+ * EN: Loads a rate table in the StaticExchangeRateProvider format from a
+ * local JSON file.
+ */
+export async function loadExchangeRates(
+    filename: string,
+): Promise<StaticExchangeRateProvider> {
+    const rates = JSON.parse(await fs.readFile(filename, 'utf8'));
+    return new StaticExchangeRateProvider(rates);
+}
+
 /**
  * EN: In this case, the target is an interface that the application is
  * compatible with
  */
 export interface TaxiCalculator {
     calculatePriceInEuros(km: number, isAirport: boolean): number;
+    calculateQuote(km: number, isAirport: boolean): FareBreakdown;
+}
+
+/**
+ * EN: An itemised fare. The charges are in the currency of the library that
+ * priced the trip, the total is in euros.
+ */
+export interface FareBreakdown {
+    baseFare: Money;
+    distanceCharge: Money;
+    airportSurcharge: Money;
+    otherCharges: { label: string, amount: Money }[];
+    subtotal: Money;
+    exchangeRate: number;
+    convertedSubtotal: Money;
+    roundingAdjustment: Money;
+    total: Money;
+}
+
+export interface FareCharges {
+    baseFare: Money;
+    distanceCharge: Money;
+    airportSurcharge: Money;
+    otherCharges?: { label: string, amount: Money }[];
+}
+
+/**
+ * EN: Adds up the charges, converts them to euros and rounds the total to
+ * whole cents, keeping track of every step. Charges in any other currency
+ * than euros need the exchange rates.
+ */
+export function createFareBreakdown(
+    charges: FareCharges,
+    rates?: ExchangeRateProvider,
+): FareBreakdown {
+    const otherCharges = charges.otherCharges || [];
+    const subtotal = otherCharges.reduce(
+        (sum, charge) => sum.add(charge.amount),
+        charges.baseFare
+            .add(charges.distanceCharge)
+            .add(charges.airportSurcharge),
+    );
+    if (subtotal.currency !== 'EUR' && !rates) {
+        throw new Error(
+            `No exchange rate provider to convert ${subtotal.currency} to EUR`,
+        );
+    }
+    const exchangeRate = subtotal.currency === 'EUR'
+        ? 1
+        : rates.getRate(subtotal.currency, 'EUR');
+    const convertedSubtotal = new Money(subtotal.amount * exchangeRate, 'EUR');
+    const total = convertedSubtotal.round();
+
+    return {
+        otherCharges,
+        subtotal,
+        exchangeRate,
+        convertedSubtotal,
+        total,
+        baseFare: charges.baseFare,
+        distanceCharge: charges.distanceCharge,
+        airportSurcharge: charges.airportSurcharge,
+        roundingAdjustment: new Money(
+            total.amount - convertedSubtotal.amount,
+            'EUR',
+        ),
+    };
 }
 
 /**
@@ -38,16 +240,294 @@ export enum Fares {
  * EN: The Taxi Calculator Adapter makes the Adaptee's interface compatible
  * with the one that the client expects.
  */
-class UKTaxiCalculatorLibraryAdapter implements TaxiCalculator {
-    constructor(private adaptee: UKTaxiCalculatorLibrary) {
+export class UKTaxiCalculatorLibraryAdapter implements TaxiCalculator {
+    constructor(
+        private adaptee: UKTaxiCalculatorLibrary,
+        private rates: ExchangeRateProvider) {
     }
 
     calculatePriceInEuros(km: number, isAirport: boolean): number {
-        const miles = km * 1.609;
-        const fare = isAirport ? Fares.Airport : Fares.Standard;
-        const pounds = this.adaptee.getPriceInPounds(miles, fare);
-        const euros = pounds * 1.15;
-        return euros;
+        return this.calculateQuote(km, isAirport).total.amount;
+    }
+
+    /**
+     * EN: The library only returns totals, so the charges are derived from
+     * the difference between its Standard and Airport fares.
+     */
+    calculateQuote(km: number, isAirport: boolean): FareBreakdown {
+        const miles = Distance.kilometers(km).toMiles();
+        const price = (m: number, fare: Fares) => new Money(
+            this.adaptee.getPriceInPounds(m, fare),
+            'GBP',
+        );
+        const baseFare = price(0, Fares.Standard);
+        const standard = price(miles, Fares.Standard);
+        const airportSurcharge = isAirport
+            ? price(miles, Fares.Airport).subtract(standard)
+            : new Money(0, 'GBP');
+
+        const charges: FareCharges = {
+            baseFare,
+            airportSurcharge,
+            distanceCharge: standard.subtract(baseFare),
+        };
+        return createFareBreakdown(charges, this.rates);
+    }
+}
+
+/**
+ * EN: Another Adaptee: a US library that prices trips in dollars and miles,
+ * and applies a surge multiplier at peak times.
+ */
+export interface USTrip {
+    distanceInMiles: number;
+    airportTrip: boolean;
+}
+
+export class USRideFareLibrary {
+    public quote(trip: USTrip, surgeMultiplier: number): { dollars: number } {
+        if (surgeMultiplier < 1) {
+            throw new Error('Surge multiplier cannot be lower than 1');
+        }
+        const base = trip.airportTrip ? 7.5 : 2.5;
+        const dollars = base + trip.distanceInMiles * 2.4;
+        return { dollars: dollars * surgeMultiplier };
+    }
+}
+
+/**
+ * EN: The surge multiplier is not part of the TaxiCalculator interface, so
+ * the adapter asks a callback for the current one.
+ */
+export class USRideFareLibraryAdapter implements TaxiCalculator {
+    constructor(
+        private adaptee: USRideFareLibrary,
+        private rates: ExchangeRateProvider,
+        private getSurgeMultiplier: () => number = () => 1) {
+    }
+
+    calculatePriceInEuros(km: number, isAirport: boolean): number {
+        return this.calculateQuote(km, isAirport).total.amount;
+    }
+
+    calculateQuote(km: number, isAirport: boolean): FareBreakdown {
+        const miles = Distance.kilometers(km).toMiles();
+        const surgeMultiplier = this.getSurgeMultiplier();
+        const price = (distanceInMiles: number, airportTrip: boolean) =>
+            new Money(
+                this.adaptee.quote({ distanceInMiles, airportTrip }, 1).dollars,
+                'USD',
+            );
+        const baseFare = price(0, false);
+        const standard = price(miles, false);
+        const unsurged = price(miles, isAirport);
+        const surged = new Money(
+            this.adaptee.quote(
+                { distanceInMiles: miles, airportTrip: isAirport },
+                surgeMultiplier,
+            ).dollars,
+            'USD',
+        );
+
+        const charges: FareCharges = {
+            baseFare,
+            distanceCharge: standard.subtract(baseFare),
+            airportSurcharge: unsurged.subtract(standard),
+            otherCharges: [{
+                label: `Surge x${surgeMultiplier}`,
+                amount: surged.subtract(unsurged),
+            }],
+        };
+        return createFareBreakdown(charges, this.rates);
+    }
+}
+
+/**
+ * EN: One more Adaptee: a taxi meter library that charges euro cents per
+ * started minute plus per kilometer, with its own tariff for airport zones.
+ */
+export enum TariffZone {
+    City = 'city',
+    Airport = 'airport',
+}
+
+export class MeterTariffLibrary {
+    private tariffs = {
+        [TariffZone.City]: { flagFall: 250, perMinute: 35, perKm: 110 },
+        [TariffZone.Airport]: { flagFall: 600, perMinute: 35, perKm: 120 },
+    };
+
+    public computeCents(
+        km: number,
+        minutes: number,
+        zone: TariffZone,
+    ): number {
+        const tariff = this.tariffs[zone];
+        return tariff.flagFall
+            + Math.ceil(minutes) * tariff.perMinute
+            + km * tariff.perKm;
+    }
+}
+
+/**
+ * EN: The client only knows the distance, so the adapter estimates the trip
+ * duration from an average speed.
+ */
+export class MeterTariffLibraryAdapter implements TaxiCalculator {
+    constructor(
+        private adaptee: MeterTariffLibrary,
+        private averageSpeedKmh: number = 30) {
+        if (!Number.isFinite(averageSpeedKmh) || averageSpeedKmh <= 0) {
+            throw new Error(`Invalid average speed: ${averageSpeedKmh} km/h`);
+        }
+    }
+
+    calculatePriceInEuros(km: number, isAirport: boolean): number {
+        return this.calculateQuote(km, isAirport).total.amount;
+    }
+
+    calculateQuote(km: number, isAirport: boolean): FareBreakdown {
+        const kilometers = Distance.kilometers(km).toKilometers();
+        const minutes = kilometers / this.averageSpeedKmh * 60;
+        const price = (k: number, m: number, zone: TariffZone) => new Money(
+            this.adaptee.computeCents(k, m, zone) / 100,
+            'EUR',
+        );
+        const baseFare = price(0, 0, TariffZone.City);
+        const distance = price(kilometers, 0, TariffZone.City);
+        const city = price(kilometers, minutes, TariffZone.City);
+        const airportSurcharge = isAirport
+            ? price(kilometers, minutes, TariffZone.Airport).subtract(city)
+            : new Money(0, 'EUR');
+
+        const charges: FareCharges = {
+            baseFare,
+            airportSurcharge,
+            distanceCharge: distance.subtract(baseFare),
+            otherCharges: [{
+                label: `Time (${Math.ceil(minutes)} min)`,
+                amount: city.subtract(distance),
+            }],
+        };
+        return createFareBreakdown(charges);
+    }
+}
+
+/**
+ * EN: Since all the libraries share the TaxiCalculator interface through
+ * their adapters, they can be compared side by side.
+ */
+export interface FareQuote {
+    provider: string;
+    priceInEuros: number;
+}
+
+export interface FareQuotes {
+    quotes: FareQuote[];
+    failures: { provider: string, error: Error }[];
+}
+
+export class FareQuoteAggregator {
+    private calculators: {
+        provider: string,
+        calculator: TaxiCalculator,
+    }[] = [];
+
+    public register(
+        provider: string,
+        calculator: TaxiCalculator,
+    ): FareQuoteAggregator {
+        this.calculators.push({ provider, calculator });
+        return this;
+    }
+
+    /**
+     * EN: Returns the quotes from the cheapest to the most expensive one.
+     * Calculators that throw are left out of the quotes and reported as
+     * failures instead.
+     */
+    public getQuotes(km: number, isAirport: boolean): FareQuotes {
+        const result: FareQuotes = { quotes: [], failures: [] };
+        for (const { provider, calculator } of this.calculators) {
+            try {
+                const priceInEuros = calculator.calculatePriceInEuros(
+                    km,
+                    isAirport,
+                );
+                result.quotes.push({ provider, priceInEuros });
+            } catch (error) {
+                result.failures.push({ provider, error });
+            }
+        }
+        result.quotes.sort((a, b) => a.priceInEuros - b.priceInEuros);
+        return result;
+    }
+}
+
+/**
+ * EN: Receipts can be rendered in different formats from the same
+ * breakdown.
+ */
+export interface ReceiptRenderer {
+    render(breakdown: FareBreakdown): string;
+}
+
+export class TextReceiptRenderer implements ReceiptRenderer {
+    public render(breakdown: FareBreakdown): string {
+        const line = (label: string, value: string) => `${label}: ${value}`;
+        const lines = [
+            line('Base fare', breakdown.baseFare.toString()),
+            line('Distance', breakdown.distanceCharge.toString()),
+            line('Airport surcharge', breakdown.airportSurcharge.toString()),
+            ...breakdown.otherCharges.map(
+                charge => line(charge.label, charge.amount.toString()),
+            ),
+            line('Subtotal', breakdown.subtotal.toString()),
+        ];
+        if (breakdown.subtotal.currency !== breakdown.total.currency) {
+            const converted = breakdown.convertedSubtotal;
+            lines.push(line(
+                `Converted at ${breakdown.exchangeRate.toFixed(4)}`,
+                `${converted.amount.toFixed(4)} ${converted.currency}`,
+            ));
+        }
+        const rounding = breakdown.roundingAdjustment;
+        lines.push(
+            line(
+                'Rounding',
+                `${rounding.amount.toFixed(4)} ${rounding.currency}`,
+            ),
+            line('Total', breakdown.total.toString()),
+        );
+        return lines.join('\n');
+    }
+}
+
+/**
+ * EN: Amounts are kept to four decimals, so conversions and rounding
+ * adjustments can be audited.
+ */
+export class JsonReceiptRenderer implements ReceiptRenderer {
+    public render(breakdown: FareBreakdown): string {
+        const money = (value: Money) => ({
+            amount: Math.round(value.amount * 10000) / 10000,
+            currency: value.currency,
+        });
+        const receipt = {
+            baseFare: money(breakdown.baseFare),
+            distanceCharge: money(breakdown.distanceCharge),
+            airportSurcharge: money(breakdown.airportSurcharge),
+            otherCharges: breakdown.otherCharges.map(charge => ({
+                label: charge.label,
+                amount: money(charge.amount),
+            })),
+            subtotal: money(breakdown.subtotal),
+            exchangeRate: breakdown.exchangeRate,
+            convertedSubtotal: money(breakdown.convertedSubtotal),
+            roundingAdjustment: money(breakdown.roundingAdjustment),
+            total: money(breakdown.total),
+        };
+        return JSON.stringify(receipt, null, 2);
     }
 }
 
@@ -61,6 +541,60 @@ function client(taxiCalculator: TaxiCalculator): void {
     console.log(`Total price: ${priceInEuros}€`);
 }
 
-const incompatibleLibrary = new UKTaxiCalculatorLibrary();
-const adaptedLibrary = new UKTaxiCalculatorLibraryAdapter(incompatibleLibrary);
-client(adaptedLibrary);
+function printReceipt(
+    taxiCalculator: TaxiCalculator,
+    renderer: ReceiptRenderer,
+): void {
+    console.log(renderer.render(taxiCalculator.calculateQuote(15, true)));
+}
+
+function compareQuotes(aggregator: FareQuoteAggregator): void {
+    console.log('Comparing the prices for a 15 Km run to the airport');
+    const { quotes, failures } = aggregator.getQuotes(15, true);
+    for (const quote of quotes) {
+        console.log(`${quote.provider}: ${quote.priceInEuros}€`);
+    }
+    for (const failure of failures) {
+        console.log(`${failure.provider} failed: ${failure.error.message}`);
+    }
+}
+
+async function main() {
+    const rates = process.env.EXCHANGE_RATES_FILE
+        ? await loadExchangeRates(process.env.EXCHANGE_RATES_FILE)
+        : new StaticExchangeRateProvider({
+            GBP: { EUR: 1.15 },
+            USD: { EUR: 0.92 },
+        });
+
+    const incompatibleLibrary = new UKTaxiCalculatorLibrary();
+    const adaptedLibrary = new UKTaxiCalculatorLibraryAdapter(
+        incompatibleLibrary,
+        rates,
+    );
+    client(adaptedLibrary);
+    printReceipt(adaptedLibrary, new TextReceiptRenderer());
+    printReceipt(adaptedLibrary, new JsonReceiptRenderer());
+
+    const aggregator = new FareQuoteAggregator()
+        .register('UK Taxi', adaptedLibrary)
+        .register('US Ride', new USRideFareLibraryAdapter(
+            new USRideFareLibrary(),
+            rates,
+            () => 1.5,
+        ))
+        .register('Taxi Meter', new MeterTariffLibraryAdapter(
+            new MeterTariffLibrary(),
+        ))
+        .register('US Ride (misconfigured)', new USRideFareLibraryAdapter(
+            new USRideFareLibrary(),
+            rates,
+            () => 0.5,
+        ));
+    compareQuotes(aggregator);
+}
+
+main().catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+});
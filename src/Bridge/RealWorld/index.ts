@@ -16,6 +16,11 @@
  * case the different list item views we have for a given content
  */
 abstract class ListItemViewAbstraction {
+    /**
+     * EN: The page format the rendered items belong to
+     */
+    abstract readonly format: PageFormat;
+
     constructor(protected contentType: ContentTypeImplementation) {
     }
 
@@ -31,6 +36,176 @@ interface ContentTypeImplementation {
     renderCaption(): string;
     renderThumbnail(): string;
     renderLink(): string;
+
+    /**
+     * EN: Plain-text data for the views that don't render HTML
+     */
+    getTitle(): string;
+    getSummary(): string;
+    getUrl(): string;
+    getImageUrl(): string;
+}
+
+/**
+ * EN: The content types build their markup through a tiny safe-HTML builder,
+ * so a title or a URL can never break out of its element. Text and attribute
+ * values are escaped, URLs are limited to safe schemes, and every element is
+ * closed properly.
+ */
+export function escapeHtml(value: string): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+const SAFE_URL_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+/**
+ * EN: Control characters and any kind of whitespace (including the Unicode
+ * spaces and the byte order mark) are stripped before the scheme check, so
+ * the URL that is checked is exactly the URL that is returned.
+ */
+const URL_IGNORED_CHARACTERS = new RegExp(
+    '[\\u0000-\\u0020\\u007f-\\u00a0\\u1680\\u180e\\u2000-\\u200f'
+    + '\\u2028-\\u202f\\u205f-\\u206f\\u3000\\ufeff]',
+    'g',
+);
+
+/**
+ * EN: Relative URLs are allowed. Absolute URLs must use one of the safe
+ * schemes, otherwise they are replaced with a harmless '#'.
+ */
+export function sanitizeUrl(url: string): string {
+    const cleaned = String(url).replace(URL_IGNORED_CHARACTERS, '');
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(cleaned);
+    const isSafe = !scheme
+        || SAFE_URL_SCHEMES.indexOf(`${scheme[1].toLowerCase()}:`) !== -1;
+    if (!isSafe) {
+        return '#';
+    }
+    return cleaned;
+}
+
+const URL_ATTRIBUTES = ['href', 'src'];
+
+const VOID_ELEMENTS = ['img'];
+
+export class SafeHtml {
+    private constructor(private readonly html: string) {
+    }
+
+    public static text(value: string): SafeHtml {
+        return new SafeHtml(escapeHtml(value));
+    }
+
+    public static element(
+        tag: string,
+        attributes: { [name: string]: string } = {},
+        ...children: (SafeHtml | string)[]
+    ): SafeHtml {
+        if (!/^[a-z][a-z0-9]*$/.test(tag)) {
+            throw new Error(`Invalid tag name: ${tag}`);
+        }
+        const renderedAttributes = Object.keys(attributes).map((name) => {
+            if (!/^[a-z][a-z0-9-]*$/.test(name)) {
+                throw new Error(`Invalid attribute name: ${name}`);
+            }
+            const value = URL_ATTRIBUTES.indexOf(name) !== -1
+                ? sanitizeUrl(attributes[name])
+                : attributes[name];
+            return ` ${name}="${escapeHtml(value)}"`;
+        }).join('');
+
+        if (VOID_ELEMENTS.indexOf(tag) !== -1) {
+            return new SafeHtml(`<${tag}${renderedAttributes}/>`);
+        }
+        const content = children.map(
+            child => child instanceof SafeHtml ? child : SafeHtml.text(child),
+        ).join('');
+        return new SafeHtml(
+            `<${tag}${renderedAttributes}>${content}</${tag}>`,
+        );
+    }
+
+    public toString(): string {
+        return this.html;
+    }
+}
+
+const h = SafeHtml.element;
+
+/**
+ * EN: Titles and link texts are shortened by grapheme clusters, so emoji,
+ * combining marks and surrogate pairs are never cut in half. The text is cut
+ * at the last word boundary that fits, unless that would drop more than half
+ * of the allowed length, and the ellipsis is only added when something was
+ * actually cut.
+ */
+interface Segmenter {
+    segment(input: string): Iterable<{ segment: string }>;
+}
+
+const MAX_TITLE_LENGTH = 80;
+
+const MAX_LINK_TEXT_LENGTH = 60;
+
+const ELLIPSIS = '…';
+
+type Granularity = 'grapheme' | 'word';
+
+function createSegmenter(granularity: Granularity): Segmenter {
+    const intl = Intl as {
+        Segmenter?: new (
+            locales: string | undefined,
+            options: { granularity: Granularity },
+        ) => Segmenter,
+    };
+    if (intl.Segmenter) {
+        return new intl.Segmenter(undefined, { granularity });
+    }
+    // EN: Older runtimes fall back to code points and whitespace-separated
+    // words.
+    return {
+        segment: input => (granularity === 'grapheme'
+            ? Array.from(input)
+            : input.split(/(\s+)/).filter(word => word !== ''))
+            .map(segment => ({ segment })),
+    };
+}
+
+const graphemeSegmenter = createSegmenter('grapheme');
+
+const wordSegmenter = createSegmenter('word');
+
+function countGraphemes(text: string): number {
+    return Array.from(graphemeSegmenter.segment(text)).length;
+}
+
+export function shortenText(text: string, maxLength: number): string {
+    if (countGraphemes(text) <= maxLength) {
+        return text;
+    }
+    const limit = maxLength - countGraphemes(ELLIPSIS);
+
+    let byWords = '';
+    for (const { segment } of Array.from(wordSegmenter.segment(text))) {
+        if (countGraphemes(byWords + segment) > limit) {
+            break;
+        }
+        byWords += segment;
+    }
+    byWords = byWords.replace(/[\s.,;:!?-]+$/, '');
+    if (countGraphemes(byWords) >= limit / 2) {
+        return byWords + ELLIPSIS;
+    }
+
+    const graphemes = Array.from(graphemeSegmenter.segment(text))
+        .slice(0, limit)
+        .map(({ segment }) => segment);
+    return graphemes.join('').replace(/\s+$/, '') + ELLIPSIS;
 }
 
 /**
@@ -38,6 +213,8 @@ interface ContentTypeImplementation {
  * independently of the content types
  */
 class VisualListItemView extends ListItemViewAbstraction {
+    readonly format: PageFormat = 'html';
+
     getRenderedItem(): string {
         return `    <li>
         ${this.contentType.renderThumbnail()}
@@ -47,6 +224,8 @@ class VisualListItemView extends ListItemViewAbstraction {
 }
 
 class DescriptiveListItemView extends ListItemViewAbstraction {
+    readonly format: PageFormat = 'html';
+
     getRenderedItem(): string {
         return `    <li>
         ${this.contentType.renderTitle()}
@@ -55,113 +234,749 @@ class DescriptiveListItemView extends ListItemViewAbstraction {
     }
 }
 
+/**
+ * EN: The JSON Feed (https://jsonfeed.org/version/1.1) item view
+ */
+class JsonFeedItemView extends ListItemViewAbstraction {
+    readonly format: PageFormat = 'json';
+
+    getRenderedItem(): string {
+        const url = sanitizeUrl(this.contentType.getUrl());
+        return JSON.stringify({
+            url,
+            id: url,
+            title: this.contentType.getTitle(),
+            content_text: this.contentType.getSummary(),
+            image: sanitizeUrl(this.contentType.getImageUrl()) || undefined,
+        });
+    }
+}
+
+/**
+ * EN: The RSS 2.0 item view. SafeHtml escaping is valid for XML as well.
+ */
+class RssItemView extends ListItemViewAbstraction {
+    readonly format: PageFormat = 'rss';
+
+    getRenderedItem(): string {
+        return `    ${h(
+            'item',
+            {},
+            h('title', {}, this.contentType.getTitle()),
+            h('link', {}, sanitizeUrl(this.contentType.getUrl())),
+            h('guid', {}, sanitizeUrl(this.contentType.getUrl())),
+            h('description', {}, this.contentType.getSummary()),
+        )}`;
+    }
+}
+
+class CompactTextItemView extends ListItemViewAbstraction {
+    readonly format: PageFormat = 'text';
+
+    getRenderedItem(): string {
+        const title = this.contentType.getTitle();
+        return `- ${title} <${sanitizeUrl(this.contentType.getUrl())}>`;
+    }
+}
+
+/**
+ * EN: The Page wraps the rendered items of a list view with a header and
+ * pagination, in the chosen output format. The view must render items of
+ * that format. Page numbers start at 1, and a page number past the end shows
+ * the last page. RSS pages need the link of the website they describe, and
+ * JSON Feed pages need their own URL to point to the next page.
+ */
+type PageFormat = 'html' | 'json' | 'rss' | 'text';
+
+interface PageOptions {
+    title: string;
+    format: PageFormat;
+    link?: string;
+    feedUrl?: string;
+    pageSize?: number;
+    pageNumber?: number;
+}
+
+class Page {
+    private pageSize: number;
+
+    private pageNumber: number;
+
+    constructor(
+        private createView: (content: ContentTypeImplementation)
+            => ListItemViewAbstraction,
+        private options: PageOptions) {
+        this.pageSize = options.pageSize || 10;
+        this.pageNumber = options.pageNumber || 1;
+        if (!(this.pageSize >= 1 && this.pageNumber >= 1)) {
+            throw new Error('Page size and page number must be at least 1');
+        }
+        if (options.format === 'rss' && !options.link) {
+            throw new Error('RSS pages need a link');
+        }
+        if (options.format === 'json' && !options.feedUrl) {
+            throw new Error('JSON Feed pages need a feed URL');
+        }
+    }
+
+    render(content: ContentTypeImplementation[]): string {
+        const totalPages = Math.max(
+            1,
+            Math.ceil(content.length / this.pageSize),
+        );
+        const pageNumber = Math.min(this.pageNumber, totalPages);
+        const start = (pageNumber - 1) * this.pageSize;
+        const items = content
+            .slice(start, start + this.pageSize)
+            .map(item => this.renderItem(item));
+        const { title, link, feedUrl } = this.options;
+        const pagination = `Page ${pageNumber} of ${totalPages}`;
+
+        switch (this.options.format) {
+        case 'html':
+            return [
+                h('h1', {}, title),
+                '<ul>',
+                ...items,
+                '</ul>',
+                h('p', {}, pagination),
+            ].join('\n');
+        case 'json': {
+            const separator = feedUrl.indexOf('?') === -1 ? '?' : '&';
+            const feed = {
+                title,
+                version: 'https://jsonfeed.org/version/1.1',
+                home_page_url: link ? sanitizeUrl(link) : undefined,
+                feed_url: sanitizeUrl(feedUrl),
+                next_url: pageNumber < totalPages
+                    ? sanitizeUrl(`${feedUrl}${separator}page=${pageNumber + 1}`)
+                    : undefined,
+                items: items.map(item => JSON.parse(item)),
+                _pagination: {
+                    totalPages,
+                    page: pageNumber,
+                    pageSize: this.pageSize,
+                },
+            };
+            return JSON.stringify(feed, null, 2);
+        }
+        case 'rss':
+            return [
+                '<rss version="2.0"><channel>',
+                `    ${h('title', {}, title)}`,
+                `    ${h('link', {}, sanitizeUrl(link))}`,
+                `    ${h('description', {}, pagination)}`,
+                ...items,
+                '</channel></rss>',
+            ].join('\n');
+        case 'text':
+            return [title, ...items, pagination].join('\n');
+        }
+    }
+
+    private renderItem(content: ContentTypeImplementation): string {
+        const view = this.createView(content);
+        if (view.format !== this.options.format) {
+            throw new Error(
+                `${view.constructor.name} renders ${view.format} items, `
+                + `it can't be used on a ${this.options.format} page`,
+            );
+        }
+        return view.getRenderedItem();
+    }
+}
+
 /**
  * EN: Time to create the different implementations, in this case the different
  * content types we have in our application: posts, videos, articles, tweets...
  */
 class PostContentType implements ContentTypeImplementation {
     constructor(
-        protected title,
-        protected caption,
-        protected imageUrl,
-        protected url) {}
+        protected title: string,
+        protected caption: string,
+        protected imageUrl: string,
+        protected url: string) {}
 
     renderTitle(): string {
-        return `<h2>${this.title}<h2>`;
+        return h('h2', {}, shortenText(this.title, MAX_TITLE_LENGTH))
+            .toString();
     }
     renderCaption(): string {
-        return `<p>${this.caption}</p>`;
+        return h('p', {}, this.caption).toString();
     }
     renderThumbnail(): string {
-        return `<img alt='${this.title}' src='${this.imageUrl}'/>`;
+        return h('img', { alt: this.title, src: this.imageUrl }).toString();
     }
     renderLink(): string {
-        return `<a href='${this.url}'>${this.title}</a>`;
+        const text = shortenText(this.title, MAX_LINK_TEXT_LENGTH);
+        return h('a', { href: this.url }, text).toString();
+    }
+    getTitle(): string {
+        return this.title;
+    }
+    getSummary(): string {
+        return this.caption;
+    }
+    getUrl(): string {
+        return this.url;
+    }
+    getImageUrl(): string {
+        return this.imageUrl;
     }
 }
 
 class VideoContentType implements ContentTypeImplementation {
     constructor(
-        protected title,
-        protected description,
-        protected thumbnailUrl,
-        protected url) {}
+        protected title: string,
+        protected description: string,
+        protected thumbnailUrl: string,
+        protected url: string) {}
 
     renderTitle(): string {
-        return `<h2>${this.title}<h2>`;
+        return h('h2', {}, shortenText(this.title, MAX_TITLE_LENGTH))
+            .toString();
     }
     renderCaption(): string {
-        return `<p>${this.description}</p>`;
+        return h('p', {}, this.description).toString();
     }
     renderThumbnail(): string {
-        return `<img alt='${this.title}' src='${this.thumbnailUrl}'/>`;
+        return h('img', { alt: this.title, src: this.thumbnailUrl })
+            .toString();
     }
     renderLink(): string {
-        return `<a href='${this.url}'>${this.title}</a>`;
+        const text = shortenText(this.title, MAX_LINK_TEXT_LENGTH);
+        return h('a', { href: this.url }, text).toString();
+    }
+    getTitle(): string {
+        return this.title;
+    }
+    getSummary(): string {
+        return this.description;
+    }
+    getUrl(): string {
+        return this.url;
+    }
+    getImageUrl(): string {
+        return this.thumbnailUrl;
     }
 }
 
 class TweetContentType implements ContentTypeImplementation {
     constructor(
-        protected tweet,
-        protected profilePictureUrl,
-        protected tweetUrl) {}
+        protected tweet: string,
+        protected profilePictureUrl: string,
+        protected tweetUrl: string) {}
+
+    renderTitle(): string {
+        return h('h2', {}, this.getTitle()).toString();
+    }
+    renderCaption(): string {
+        return h('p', {}, this.tweet).toString();
+    }
+    renderThumbnail(): string {
+        return h('img', {
+            alt: this.getTitle(),
+            src: this.profilePictureUrl,
+        }).toString();
+    }
+    renderLink(): string {
+        const text = shortenText(this.tweet, 30);
+        return h('a', { href: this.tweetUrl }, text).toString();
+    }
+    getTitle(): string {
+        return shortenText(this.tweet, 50);
+    }
+    getSummary(): string {
+        return this.tweet;
+    }
+    getUrl(): string {
+        return this.tweetUrl;
+    }
+    getImageUrl(): string {
+        return this.profilePictureUrl;
+    }
+}
+
+class PodcastEpisodeContentType implements ContentTypeImplementation {
+    constructor(
+        protected title: string,
+        protected showName: string,
+        protected durationSeconds: number,
+        protected audioUrl: string,
+        protected coverUrl: string,
+        protected url: string) {}
+
+    renderTitle(): string {
+        return h('h2', {}, shortenText(this.title, MAX_TITLE_LENGTH))
+            .toString();
+    }
+    renderCaption(): string {
+        return [
+            h('p', {}, this.getSummary()),
+            h('audio', { controls: 'controls', src: this.audioUrl }),
+        ].join('');
+    }
+    renderThumbnail(): string {
+        return h('img', { alt: this.title, src: this.coverUrl }).toString();
+    }
+    renderLink(): string {
+        const text = shortenText(this.title, MAX_LINK_TEXT_LENGTH);
+        return h('a', { href: this.url }, text).toString();
+    }
+    getTitle(): string {
+        return this.title;
+    }
+    getSummary(): string {
+        const minutes = Math.round(this.durationSeconds / 60);
+        return `${this.showName} (${minutes} min)`;
+    }
+    getUrl(): string {
+        return this.url;
+    }
+    getImageUrl(): string {
+        return this.coverUrl;
+    }
+}
+
+class ImageGalleryContentType implements ContentTypeImplementation {
+    constructor(
+        protected title: string,
+        protected imageUrls: string[],
+        protected url: string) {}
+
+    renderTitle(): string {
+        return h('h2', {}, shortenText(this.title, MAX_TITLE_LENGTH))
+            .toString();
+    }
+    renderCaption(): string {
+        return h('p', {}, this.getSummary()).toString();
+    }
+    renderThumbnail(): string {
+        return h('img', { alt: this.title, src: this.getImageUrl() })
+            .toString();
+    }
+    renderLink(): string {
+        const text = shortenText(this.title, MAX_LINK_TEXT_LENGTH);
+        return h('a', { href: this.url }, text).toString();
+    }
+    getTitle(): string {
+        return this.title;
+    }
+    getSummary(): string {
+        return `${this.imageUrls.length} photos`;
+    }
+    getUrl(): string {
+        return this.url;
+    }
+    getImageUrl(): string {
+        return this.imageUrls.length > 0 ? this.imageUrls[0] : '';
+    }
+}
+
+class CodeSnippetContentType implements ContentTypeImplementation {
+    constructor(
+        protected title: string,
+        protected language: string,
+        protected code: string,
+        protected url: string) {}
 
     renderTitle(): string {
-        return `<h2>${this.tweet.substring(0, 50)}...<h2>`;
+        return h('h2', {}, shortenText(this.title, MAX_TITLE_LENGTH))
+            .toString();
     }
     renderCaption(): string {
-        return `<p>${this.tweet}</p>`;
+        return h(
+            'pre',
+            {},
+            h('code', { class: `language-${this.language}` }, this.code),
+        ).toString();
     }
     renderThumbnail(): string {
-        return `<img alt='${this.tweet.substring(0, 50)}...' src='${this.profilePictureUrl}'/>`;
+        return h('span', { class: 'language' }, this.language).toString();
     }
     renderLink(): string {
-        return `<a href='${this.tweetUrl}'>${this.tweet.substring(0, 30)}...</a>`;
+        const text = shortenText(this.title, MAX_LINK_TEXT_LENGTH);
+        return h('a', { href: this.url }, text).toString();
+    }
+    getTitle(): string {
+        return this.title;
+    }
+    getSummary(): string {
+        return this.code;
+    }
+    getUrl(): string {
+        return this.url;
+    }
+    getImageUrl(): string {
+        return '';
+    }
+}
+
+/**
+ * EN: The registry builds content types from JSON descriptors such as
+ * { "type": "post", "title": "...", ... }. Every descriptor is checked
+ * against the field types declared for its content type. Invalid
+ * descriptors are skipped and reported with their index and field, so one
+ * bad entry doesn't break the whole page.
+ */
+type FieldType = 'string' | 'number' | 'string[]';
+
+type FieldTypes<Descriptor> = { [Field in keyof Descriptor]: FieldType };
+
+interface ContentTypeDefinition<Descriptor> {
+    fields: FieldTypes<Descriptor>;
+    create(descriptor: Descriptor): ContentTypeImplementation;
+}
+
+interface DescriptorError {
+    index: number;
+    field: string;
+    message: string;
+}
+
+class ContentTypeRegistry {
+    private definitions = new Map<string, ContentTypeDefinition<any>>();
+
+    register<Descriptor>(
+        type: string,
+        definition: ContentTypeDefinition<Descriptor>,
+    ): ContentTypeRegistry {
+        this.definitions.set(type, definition);
+        return this;
     }
+
+    fromJson(json: string): {
+        content: ContentTypeImplementation[],
+        errors: DescriptorError[],
+    } {
+        const descriptors = JSON.parse(json);
+        if (!Array.isArray(descriptors)) {
+            throw new Error('Content descriptors must be a JSON array');
+        }
+
+        const content: ContentTypeImplementation[] = [];
+        const errors: DescriptorError[] = [];
+        descriptors.forEach((descriptor, index) => {
+            const descriptorErrors = this.validate(descriptor, index);
+            if (descriptorErrors.length > 0) {
+                errors.push(...descriptorErrors);
+            } else {
+                content.push(
+                    this.definitions.get(descriptor.type).create(descriptor),
+                );
+            }
+        });
+        return { content, errors };
+    }
+
+    private validate(descriptor: any, index: number): DescriptorError[] {
+        const error = (field: string, message: string) =>
+            ({ index, field, message });
+        if (descriptor === null || typeof descriptor !== 'object') {
+            return [error('', 'Descriptor must be an object')];
+        }
+        const definition = this.definitions.get(descriptor.type);
+        if (!definition) {
+            const types = Array.from(this.definitions.keys()).join(', ');
+            return [error('type', `Unknown content type, expected: ${types}`)];
+        }
+
+        return Object.keys(definition.fields)
+            .filter(field => !this.hasType(
+                descriptor[field],
+                definition.fields[field],
+            ))
+            .map(field => error(
+                field,
+                descriptor[field] === undefined
+                    ? 'Field is required'
+                    : `Field must be a ${definition.fields[field]}`,
+            ));
+    }
+
+    private hasType(value: any, type: FieldType): boolean {
+        switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'string[]':
+            return Array.isArray(value)
+                && value.every(item => typeof item === 'string');
+        }
+    }
+}
+
+interface PostDescriptor {
+    title: string;
+    caption: string;
+    imageUrl: string;
+    url: string;
 }
 
+interface VideoDescriptor {
+    title: string;
+    description: string;
+    thumbnailUrl: string;
+    url: string;
+}
+
+interface TweetDescriptor {
+    tweet: string;
+    profilePictureUrl: string;
+    tweetUrl: string;
+}
+
+interface PodcastEpisodeDescriptor {
+    title: string;
+    showName: string;
+    durationSeconds: number;
+    audioUrl: string;
+    coverUrl: string;
+    url: string;
+}
+
+interface ImageGalleryDescriptor {
+    title: string;
+    imageUrls: string[];
+    url: string;
+}
+
+interface CodeSnippetDescriptor {
+    title: string;
+    language: string;
+    code: string;
+    url: string;
+}
+
+const contentTypes = new ContentTypeRegistry();
+
+contentTypes.register<PostDescriptor>('post', {
+    fields: {
+        title: 'string',
+        caption: 'string',
+        imageUrl: 'string',
+        url: 'string',
+    },
+    create: d => new PostContentType(d.title, d.caption, d.imageUrl, d.url),
+});
+
+contentTypes.register<VideoDescriptor>('video', {
+    fields: {
+        title: 'string',
+        description: 'string',
+        thumbnailUrl: 'string',
+        url: 'string',
+    },
+    create: d => new VideoContentType(
+        d.title,
+        d.description,
+        d.thumbnailUrl,
+        d.url,
+    ),
+});
+
+contentTypes.register<TweetDescriptor>('tweet', {
+    fields: {
+        tweet: 'string',
+        profilePictureUrl: 'string',
+        tweetUrl: 'string',
+    },
+    create: d => new TweetContentType(d.tweet, d.profilePictureUrl, d.tweetUrl),
+});
+
+contentTypes.register<PodcastEpisodeDescriptor>('podcast', {
+    fields: {
+        title: 'string',
+        showName: 'string',
+        durationSeconds: 'number',
+        audioUrl: 'string',
+        coverUrl: 'string',
+        url: 'string',
+    },
+    create: d => new PodcastEpisodeContentType(
+        d.title,
+        d.showName,
+        d.durationSeconds,
+        d.audioUrl,
+        d.coverUrl,
+        d.url,
+    ),
+});
+
+contentTypes.register<ImageGalleryDescriptor>('gallery', {
+    fields: {
+        title: 'string',
+        imageUrls: 'string[]',
+        url: 'string',
+    },
+    create: d => new ImageGalleryContentType(d.title, d.imageUrls, d.url),
+});
+
+contentTypes.register<CodeSnippetDescriptor>('snippet', {
+    fields: {
+        title: 'string',
+        language: 'string',
+        code: 'string',
+        url: 'string',
+    },
+    create: d => new CodeSnippetContentType(
+        d.title,
+        d.language,
+        d.code,
+        d.url,
+    ),
+});
+
 /**
  * EN: The client code only depends on the Abstraction. Now we can extend
  * abstractions (i.e. add new views) without impacting implementations
  * (content types). Also we can add new content types without impacting
  * anything from the views.
  */
-const content = [
-    new PostContentType(
-        'New example available on RefactoringGuru',
-        'Bridge design pattern now has a real world example',
-        'http://img.sample.org/bridge.jpg',
-        'https://refactoring.guru/design-patterns/bridge',
-    ),
-    new TweetContentType(
-        'Windows will support Linux executables natively on Windows 12',
-        'http://img.sample.org/profile.jpg',
-        'https://twitter.com/genbeta/387487346856/',
-    ),
-    new VideoContentType(
-        'BRIDGE | Patrones de Diseño',
-        'En éste vídeo de la serie de PATRONES DE DISEÑO veremos el PATRÓN BRIDGE!',
-        'http://img.sample.org/bridge.jpg',
-        'https://www.youtube.com/watch?v=6bIHhzqMdgg',
-    ),
-];
+const descriptors = `[
+    {
+        "type": "post",
+        "title": "New example available on RefactoringGuru",
+        "caption": "Bridge design pattern now has a real world example",
+        "imageUrl": "http://img.sample.org/bridge.jpg",
+        "url": "https://refactoring.guru/design-patterns/bridge"
+    },
+    {
+        "type": "tweet",
+        "tweet": "Windows will support Linux executables natively on Windows 12",
+        "profilePictureUrl": "http://img.sample.org/profile.jpg",
+        "tweetUrl": "https://twitter.com/genbeta/387487346856/"
+    },
+    {
+        "type": "video",
+        "title": "BRIDGE | Patrones de Diseño",
+        "description": "En éste vídeo de la serie de PATRONES DE DISEÑO veremos el PATRÓN BRIDGE!",
+        "thumbnailUrl": "http://img.sample.org/bridge.jpg",
+        "url": "https://www.youtube.com/watch?v=6bIHhzqMdgg"
+    },
+    {
+        "type": "podcast",
+        "title": "Design patterns in practice",
+        "showName": "Refactoring Radio",
+        "durationSeconds": 2710,
+        "audioUrl": "https://audio.sample.org/episode-12.mp3",
+        "coverUrl": "http://img.sample.org/podcast.jpg",
+        "url": "https://podcast.sample.org/episode-12"
+    },
+    {
+        "type": "gallery",
+        "title": "Design patterns meetup",
+        "imageUrls": [
+            "http://img.sample.org/meetup-1.jpg",
+            "http://img.sample.org/meetup-2.jpg"
+        ],
+        "url": "https://photos.sample.org/meetup"
+    },
+    {
+        "type": "snippet",
+        "title": "Bridge in a nutshell",
+        "language": "typescript",
+        "code": "new VisualListItemView(new PostContentType(...))",
+        "url": "https://gist.sample.org/bridge"
+    },
+    {
+        "type": "podcast",
+        "title": "An episode with a broken descriptor",
+        "durationSeconds": "45 min"
+    }
+]`;
+
+const { content, errors } = contentTypes.fromJson(descriptors);
+for (const error of errors) {
+    console.log(
+        `Skipped content #${error.index}, field "${error.field}": `
+        + `${error.message}`,
+    );
+}
 
 /**
  * EN: The client code can use any Abstraction to render items
  */
-const visualList = content.map(i => new VisualListItemView(i));
-console.log('<h1>Visual Page</h1>');
-console.log('<ul>');
-for (const visualItem of visualList) {
-    console.log(visualItem.getRenderedItem());
-}
-console.log('</ul>');
+const visualPage = new Page(
+    i => new VisualListItemView(i),
+    { title: 'Visual Page', format: 'html' },
+);
+console.log(visualPage.render(content));
 
-const descriptiveList = content.map(i => new DescriptiveListItemView(i));
-console.log('<h1>Descriptive Page</h1>');
-console.log('<ul>');
-for (const descriptiveItem of descriptiveList) {
-    console.log(descriptiveItem.getRenderedItem());
-}
-console.log('</ul>');
+const descriptivePage = new Page(
+    i => new DescriptiveListItemView(i),
+    { title: 'Descriptive Page', format: 'html' },
+);
+console.log(descriptivePage.render(content));
+
+/**
+ * EN: The same items can be published as feeds or plain text, one page at
+ * a time
+ */
+const jsonFeedPage = new Page(
+    i => new JsonFeedItemView(i),
+    {
+        title: 'Latest content',
+        format: 'json',
+        link: 'https://refactoring.guru',
+        feedUrl: 'https://refactoring.guru/feed.json',
+        pageSize: 2,
+    },
+);
+console.log(jsonFeedPage.render(content));
+
+const rssPage = new Page(
+    i => new RssItemView(i),
+    {
+        title: 'Latest content',
+        format: 'rss',
+        link: 'https://refactoring.guru',
+        pageSize: 2,
+        pageNumber: 2,
+    },
+);
+console.log(rssPage.render(content));
+
+const textPage = new Page(
+    i => new CompactTextItemView(i),
+    { title: 'Latest content', format: 'text' },
+);
+console.log(textPage.render(content));
+
+/**
+ * EN: Since the content types render through SafeHtml, malicious content
+ * can't inject markup or scripts into the page
+ */
+const maliciousPost = new PostContentType(
+    '</h2><script>alert("xss")</script>',
+    '<img src=x onerror="alert(1)">',
+    'javascript:alert(1)',
+    ' JaVaScRiPt:alert(document.cookie)',
+);
+console.log(new VisualListItemView(maliciousPost).getRenderedItem());
+console.log(new DescriptiveListItemView(maliciousPost).getRenderedItem());
+const unicodeSpacedPost = new PostContentType(
+    'Non-breaking spaces do not hide a script URL',
+    'Neither does a byte order mark',
+    '\u00a0javascript:alert(document.cookie)',
+    '\ufeffjavascript:alert(document.cookie)',
+);
+console.log(new VisualListItemView(unicodeSpacedPost).getRenderedItem());
+
+/**
+ * EN: Shortening never splits an emoji or a combining mark, and short texts
+ * are left untouched
+ */
+const emojiTweet = new TweetContentType(
+    'Family trip 👨‍👩‍👧‍👦🏖️ to the seaside with café au lait ☕ every morning, no regrets',
+    'http://img.sample.org/profile.jpg',
+    'https://twitter.com/traveller/1/',
+);
+console.log(new DescriptiveListItemView(emojiTweet).getRenderedItem());
+const shortTweet = new TweetContentType(
+    'Short and sweet 🍭',
+    'http://img.sample.org/profile.jpg',
+    'https://twitter.com/traveller/2/',
+);
+console.log(new VisualListItemView(shortTweet).getRenderedItem());
@@ -6,6 +6,178 @@
  * Solution: Create a new class that knows how to build the User by parts
  */
 
+import * as fs from 'fs/promises';
+
+/**
+ * EN: Address value object. Postal codes are validated and normalized with
+ * the rules of the address' country, and every country has its own postal
+ * format.
+ */
+export type CountryCode = 'US' | 'ES' | 'UK' | 'DE' | 'FR';
+
+interface CountryRules {
+    postalCode: RegExp;
+    normalizePostalCode?: (postalCode: string) => string;
+    format(address: Address): string[];
+}
+
+const COUNTRY_RULES: { [country in CountryCode]: CountryRules } = {
+    US: {
+        postalCode: /^\d{5}(-\d{4})?$/,
+        format: a => [`${a.number} ${a.streetName}`, `${a.city} ${a.zipCode}`],
+    },
+    ES: {
+        postalCode: /^(0[1-9]|[1-4]\d|5[0-2])\d{3}$/,
+        format: a => [`${a.streetName}, ${a.number}`, `${a.zipCode} ${a.city}`],
+    },
+    UK: {
+        postalCode: /^[A-Z]{1,2}\d[A-Z\d]? \d[A-Z]{2}$/,
+        normalizePostalCode: code => code
+            .replace(/\s+/g, '')
+            .replace(/^(.+)(.{3})$/, '$1 $2'),
+        format: a => [`${a.number} ${a.streetName}`, a.city, a.zipCode],
+    },
+    DE: {
+        postalCode: /^\d{5}$/,
+        format: a => [`${a.streetName} ${a.number}`, `${a.zipCode} ${a.city}`],
+    },
+    FR: {
+        postalCode: /^\d{5}$/,
+        format: a => [`${a.number} ${a.streetName}`, `${a.zipCode} ${a.city}`],
+    },
+};
+
+const COUNTRY_ALIASES: { [alias: string]: CountryCode } = { GB: 'UK' };
+
+export class Address {
+    private constructor(
+        public readonly streetName: string,
+        public readonly number: number,
+        public readonly city: string,
+        public readonly zipCode: string,
+        public readonly country: CountryCode) {
+    }
+
+    public static create(
+        streetName: string,
+        number: number,
+        city: string,
+        zipCode: string,
+        country: string): Address {
+        const code = country.trim().toUpperCase();
+        const countryCode = (COUNTRY_ALIASES[code] || code) as CountryCode;
+        const rules = COUNTRY_RULES[countryCode];
+        if (!rules) {
+            const supported = Object.keys(COUNTRY_RULES).join(', ');
+            throw new Error(
+                `Unsupported country ${country}, expected one of: ${supported}`,
+            );
+        }
+        if (!streetName.trim() || !city.trim()) {
+            throw new Error('Street name and city are required');
+        }
+        if (!(Number.isInteger(number) && number > 0)) {
+            throw new Error(`Invalid street number ${number}`);
+        }
+
+        const normalize = rules.normalizePostalCode || (c => c);
+        const postalCode = normalize(zipCode.trim().toUpperCase());
+        if (!rules.postalCode.test(postalCode)) {
+            throw new Error(
+                `Invalid postal code ${zipCode} for country ${countryCode}`,
+            );
+        }
+
+        return new Address(
+            streetName.trim(),
+            number,
+            city.trim(),
+            postalCode,
+            countryCode,
+        );
+    }
+
+    public equals(other: Address): boolean {
+        return other instanceof Address
+            && this.streetName.toLowerCase() === other.streetName.toLowerCase()
+            && this.number === other.number
+            && this.city.toLowerCase() === other.city.toLowerCase()
+            && this.zipCode === other.zipCode
+            && this.country === other.country;
+    }
+
+    /**
+     * EN: Formats the address the way it is written in its country, one line
+     * per array item.
+     */
+    public format(): string[] {
+        return [...COUNTRY_RULES[this.country].format(this), this.country];
+    }
+
+    public toString(): string {
+        return this.format().join(', ');
+    }
+}
+
+export interface AddressData {
+    streetName: string;
+    number: number;
+    city: string;
+    zipCode: string;
+    country: string;
+}
+
+/**
+ * EN: Users are serialized with a schema version, so older exports can still
+ * be loaded. Version 1 stored the address as a single string.
+ */
+export const USER_SCHEMA_VERSION = 2;
+
+export interface UserData {
+    name?: string;
+    surname?: string;
+    email?: string;
+    phoneNumber?: string;
+    gender?: string;
+    isAdmin?: boolean;
+    address?: AddressData;
+}
+
+export interface UserJSON extends UserData {
+    schemaVersion: number;
+}
+
+function migrateUserJSON(json: any): UserJSON {
+    if (json === null || typeof json !== 'object') {
+        throw new Error('Serialized user must be an object');
+    }
+    const version = json.schemaVersion === undefined ? 1 : json.schemaVersion;
+    if (version === 1) {
+        const { address, ...rest } = json;
+        const parts = typeof address === 'string'
+            ? /^(.*) (\d+), (.*) \((.*)\) (.*)$/.exec(address)
+            : null;
+        if (address !== undefined && !parts) {
+            throw new Error(`Unable to migrate address: ${address}`);
+        }
+        return migrateUserJSON({
+            ...rest,
+            schemaVersion: 2,
+            address: parts ? {
+                streetName: parts[1],
+                number: Number(parts[2]),
+                city: parts[3],
+                zipCode: parts[4],
+                country: parts[5],
+            } : undefined,
+        });
+    }
+    if (version !== USER_SCHEMA_VERSION) {
+        throw new Error(`Unsupported user schema version ${version}`);
+    }
+    return json;
+}
+
 /**
  * EN: User concrete class
  */
@@ -14,7 +186,7 @@ export class User {
     public surname: string;
     public email: string;
     public gender: Gender = Gender.Undefined;
-    public address: string;
+    public address: Address;
     public isAdmin: boolean = false;
     public phoneNumber: string;
 
@@ -43,7 +215,13 @@ export class User {
       city: string,
       zipCode: string,
       country: string) {
-        this.address = `${streetName} ${number}, ${city} (${zipCode}) ${country}`;
+        this.address = Address.create(
+            streetName,
+            number,
+            city,
+            zipCode,
+            country,
+        );
     }
 
     public setIsAdmin(isAdmin: boolean) {
@@ -51,15 +229,115 @@ export class User {
     }
 
     public setPhoneNumber(phoneNumber: string) {
-        if (!/^[+]?[(]?\d{3})?[-\s.]?\d{3}[-\s.]?\d{4,6}$/.test(phoneNumber)) {
+        if (!/^[+]?[(]?\d{3}[)]?[-\s.]?\d{3}[-\s.]?\d{4,6}$/.test(phoneNumber)) {
             throw new Error('Invalid phone number format');
         }
         this.phoneNumber = phoneNumber;
     }
+
+    public toJSON(): UserJSON {
+        return {
+            schemaVersion: USER_SCHEMA_VERSION,
+            name: this.name,
+            surname: this.surname,
+            email: this.email,
+            phoneNumber: this.phoneNumber,
+            gender: this.gender,
+            isAdmin: this.isAdmin,
+            address: this.address && { ...this.address },
+        };
+    }
+
+    /**
+     * EN: Rehydrates a User through UserBuilder, so the data goes through the
+     * same validations as the fluent setters. Throws a UserValidationError
+     * when it doesn't pass them.
+     */
+    public static fromJSON(json: string | object): User {
+        const data = migrateUserJSON(
+            typeof json === 'string' ? JSON.parse(json) : json,
+        );
+        return UserBuilder.from(data).getProduct();
+    }
+}
+
+/**
+ * EN: Serializes a User for logs, masking its contact details
+ */
+export function toRedactedJSON(user: User): UserJSON {
+    const json = user.toJSON();
+    if (json.email) {
+        const [local, domain] = json.email.split('@');
+        json.email = `${local[0]}${'*'.repeat(local.length - 1)}@${domain}`;
+    }
+    if (json.phoneNumber) {
+        const digits = json.phoneNumber.length - 2;
+        json.phoneNumber = `${'*'.repeat(digits)}${json.phoneNumber.slice(-2)}`;
+    }
+    return json;
 }
 
 enum Gender { Male = 'Male', Female = 'Female', Undefined = 'Undefined' }
 
+/**
+ * EN: Validation errors point at the field (path) they are about
+ */
+export interface ValidationError {
+    path: string;
+    message: string;
+}
+
+export class UserValidationError extends Error {
+    constructor(public readonly errors: ValidationError[]) {
+        super(errors.map(e => `${e.path}: ${e.message}`).join('; '));
+        this.name = 'UserValidationError';
+    }
+}
+
+export type BuildResult =
+    | { valid: true, user: User }
+    | { valid: false, errors: ValidationError[] };
+
+export type UserField =
+    'name' | 'surname' | 'email' | 'gender' | 'address' | 'isAdmin'
+    | 'phoneNumber';
+
+/**
+ * EN: Rules check a whole User at build time, so they can relate fields to
+ * each other. Declare them with the validationRules helpers.
+ */
+export type ValidationRule = (user: User) => ValidationError[];
+
+function isMissing(value: any): boolean {
+    return value === undefined || value === null || value === '';
+}
+
+export const validationRules = {
+    required(field: UserField, message = `${field} is required`) {
+        return (user: User): ValidationError[] => (
+            isMissing(user[field]) ? [{ message, path: field }] : []
+        );
+    },
+
+    atLeastOne(fields: UserField[], path: string, message: string) {
+        return (user: User): ValidationError[] => (
+            fields.every(field => isMissing(user[field]))
+                ? [{ path, message }]
+                : []
+        );
+    },
+};
+
+export const defaultUserRules: ValidationRule[] = [
+    validationRules.required('name'),
+    validationRules.required('surname'),
+    validationRules.atLeastOne(
+        ['email', 'phoneNumber'],
+        'contact',
+        'email or phone number is required',
+    ),
+];
+
 /**
  * EN: General interface Builder
  */
@@ -68,25 +346,164 @@ export interface Builder {
     getProduct();
 }
 
+/**
+ * EN: The staged builder has the same fluent setters as UserBuilder, but its
+ * type keeps track of the mandatory parts provided so far. getProduct() is
+ * only available once the name, the surname and a contact method (email or
+ * phone number) have been set, so incomplete users don't compile.
+ */
+type Stage = 'name' | 'surname' | 'contact';
+
+type FluentSetter =
+    'setName' | 'setSurname' | 'setEmail' | 'setPhoneNumber'
+    | 'setMaleGender' | 'setFemaleGender' | 'setUndefinedGender'
+    | 'setAddress' | 'setIsAdmin';
+
+type StageOf<Setter extends FluentSetter> =
+    Setter extends 'setName' ? 'name'
+    : Setter extends 'setSurname' ? 'surname'
+    : Setter extends 'setEmail' | 'setPhoneNumber' ? 'contact'
+    : never;
+
+export type StagedUserBuilder<Done extends Stage = never> = {
+    [Setter in FluentSetter]: (...args: Parameters<UserBuilder[Setter]>)
+        => StagedUserBuilder<Done | StageOf<Setter>>;
+} & (Stage extends Done ? { getProduct(): User } : {});
+
 /**
  * EN: User concrete Builder
  */
 export class UserBuilder implements Builder {
     #user: User;
 
-    constructor() {
+    private errors: ValidationError[];
+
+    constructor(private rules: ValidationRule[] = defaultUserRules) {
         this.reset();
     }
 
+    /**
+     * EN: Creates a builder whose getProduct() only compiles once all the
+     * mandatory parts are set. The values themselves are still validated
+     * when the User is built.
+     */
+    public static staged(
+        rules: ValidationRule[] = defaultUserRules,
+    ): StagedUserBuilder {
+        return new UserBuilder(rules) as unknown as StagedUserBuilder;
+    }
+
+    /**
+     * EN: Creates a builder prefilled with existing user data, e.g. to edit
+     * a User. The data goes through the regular setters, so invalid values
+     * are reported by build() as usual.
+     */
+    public static from(
+        data: UserData | User,
+        rules: ValidationRule[] = defaultUserRules,
+    ): UserBuilder {
+        return new UserBuilder(rules).fill(data);
+    }
+
+    /**
+     * EN: Sets every field present in the data through the regular setters.
+     * The data may come from JSON, so a field of the wrong type is reported
+     * as a ValidationError instead of being set.
+     */
+    public fill(data: UserData | User) {
+        const has = (
+            path: string,
+            value: any,
+            type: string,
+            required = false,
+        ) => {
+            if (value === undefined || value === null) {
+                if (required) {
+                    this.errors.push({ path, message: 'Is required' });
+                }
+                return false;
+            }
+            if (typeof value !== type) {
+                this.errors.push({ path, message: `Must be a ${type}` });
+                return false;
+            }
+            return true;
+        };
+        if (has('name', data.name, 'string')) {
+            this.setName(data.name);
+        }
+        if (has('surname', data.surname, 'string')) {
+            this.setSurname(data.surname);
+        }
+        if (has('email', data.email, 'string')) {
+            this.setEmail(data.email);
+        }
+        if (has('phoneNumber', data.phoneNumber, 'string')) {
+            this.setPhoneNumber(data.phoneNumber);
+        }
+        if (data.gender === Gender.Male) {
+            this.setMaleGender();
+        } else if (data.gender === Gender.Female) {
+            this.setFemaleGender();
+        } else if (data.gender === Gender.Undefined) {
+            this.setUndefinedGender();
+        } else if (data.gender !== undefined && data.gender !== null) {
+            this.errors.push({
+                path: 'gender',
+                message: `Invalid gender ${data.gender}`,
+            });
+        }
+        if (has('address', data.address, 'object')) {
+            const address = data.address;
+            const valid = [
+                has('address.streetName', address.streetName, 'string', true),
+                has('address.number', address.number, 'number', true),
+                has('address.city', address.city, 'string', true),
+                has('address.zipCode', address.zipCode, 'string', true),
+                has('address.country', address.country, 'string', true),
+            ];
+            if (valid.every(isValid => isValid)) {
+                const { streetName, number, city, zipCode, country } = address;
+                this.setAddress(streetName, number, city, zipCode, country);
+            }
+        }
+        if (has('isAdmin', data.isAdmin, 'boolean')) {
+            this.setIsAdmin(data.isAdmin);
+        }
+        return this;
+    }
+
     public reset() {
         this.#user = new User();
+        this.errors = [];
         return this;
     }
 
-    getProduct() {
-        const product = this.#user;
+    /**
+     * EN: Returns the User, or every error found by the setters and the
+     * rules. Either way, the builder is reset for the next User.
+     */
+    public build(): BuildResult {
+        const user = this.#user;
+        const errors = this.errors.concat(
+            ...this.rules.map(rule => rule(user)),
+        );
         this.reset();
-        return product;
+        return errors.length > 0
+            ? { errors, valid: false }
+            : { user, valid: true };
+    }
+
+    /**
+     * EN: Same as build(), but throws a UserValidationError instead of
+     * returning the errors.
+     */
+    getProduct() {
+        const result = this.build();
+        if ('errors' in result) {
+            throw new UserValidationError(result.errors);
+        }
+        return result.user;
     }
 
     public setName(name: string) {
@@ -100,7 +517,7 @@ export class UserBuilder implements Builder {
     }
 
     public setEmail(email: string) {
-        this.#user.setEmail(email);
+        this.apply('email', () => this.#user.setEmail(email));
         return this;
     }
 
@@ -125,19 +542,378 @@ export class UserBuilder implements Builder {
       city: string,
       zipCode: string,
       country: string) {
-        this.#user.setAddress(streetName, number, city, zipCode, country);
+        this.apply('address', () => this.#user.setAddress(
+            streetName,
+            number,
+            city,
+            zipCode,
+            country,
+        ));
         return this;
     }
 
-    public setIsAdmin() {
-        this.#user.setIsAdmin(true);
+    public setIsAdmin(isAdmin: boolean = true) {
+        this.#user.setIsAdmin(isAdmin);
         return this;
     }
 
     public setPhoneNumber(phoneNumber: string) {
-        this.#user.setPhoneNumber(phoneNumber);
+        this.apply('phoneNumber', () => this.#user.setPhoneNumber(phoneNumber));
         return this;
     }
+
+    /**
+     * EN: Setters don't throw on invalid values: their errors are collected
+     * and reported by build().
+     */
+    private apply(path: UserField, setter: () => void) {
+        try {
+            setter();
+        } catch (error) {
+            this.errors.push({ path, message: error.message });
+        }
+    }
+}
+
+/**
+ * EN: Recipes describe typical users declaratively. A recipe can include
+ * other recipes: their fields are applied first, in order, and the recipe's
+ * own fields override them. Addresses are merged field by field, so a
+ * recipe or an override can change just the city, for example.
+ */
+export type UserDataPatch =
+    Pick<UserData, Exclude<keyof UserData, 'address'>>
+    & { address?: Partial<AddressData> };
+
+export interface UserRecipe {
+    includes?: string[];
+    fields: UserDataPatch;
+}
+
+export const defaultUserRecipes: { [name: string]: UserRecipe } = {
+    staff: {
+        fields: {
+            address: {
+                streetName: 'Gran Via',
+                number: 28,
+                city: 'Madrid',
+                zipCode: '28013',
+                country: 'ES',
+            },
+        },
+    },
+    admin: {
+        includes: ['staff'],
+        fields: { isAdmin: true },
+    },
+    supportAgent: {
+        includes: ['staff'],
+        fields: { phoneNumber: '+34555000000' },
+    },
+    guest: {
+        fields: { name: 'Guest', surname: 'User', isAdmin: false },
+    },
+};
+
+/**
+ * EN: The Director builds users from named recipes, so callers don't have to
+ * repeat the same setter chains. It returns the builder, so the caller can
+ * still adjust the user before getting the product.
+ */
+export class UserDirector {
+    constructor(
+        private builder: UserBuilder,
+        private recipes: { [name: string]: UserRecipe } = defaultUserRecipes) {
+    }
+
+    /**
+     * EN: Applies one or more recipes, then the caller's overrides
+     */
+    public construct(
+        recipeNames: string | string[],
+        overrides: UserDataPatch = {},
+    ): UserBuilder {
+        const names = typeof recipeNames === 'string'
+            ? [recipeNames]
+            : recipeNames;
+        const fields = this.merge(
+            ...names.map(name => this.resolve(name, [])),
+            overrides,
+        );
+        return this.builder.reset().fill(fields as UserData);
+    }
+
+    private resolve(name: string, path: string[]): UserDataPatch {
+        if (!this.recipes.hasOwnProperty(name)) {
+            const known = Object.keys(this.recipes).join(', ');
+            throw new Error(`Unknown recipe ${name}, expected one of: ${known}`);
+        }
+        if (path.indexOf(name) !== -1) {
+            throw new Error(
+                `Recipe cycle: ${path.concat(name).join(' -> ')}`,
+            );
+        }
+        const recipe = this.recipes[name];
+        const included = (recipe.includes || []).map(
+            includedName => this.resolve(includedName, path.concat(name)),
+        );
+        return this.merge(...included, recipe.fields);
+    }
+
+    private merge(...patches: UserDataPatch[]): UserDataPatch {
+        return patches.reduce(
+            (result, patch) => {
+                const merged = { ...result, ...patch };
+                if (result.address && patch.address) {
+                    merged.address = { ...result.address, ...patch.address };
+                }
+                return merged;
+            },
+            {},
+        );
+    }
+}
+
+/**
+ * EN: A minimal RFC 4180 CSV parser: quoted fields may contain commas, line
+ * breaks and doubled quotes. Empty lines and a leading byte order mark are
+ * skipped. Each record keeps the number of the line it starts on. A quote
+ * that is never closed is an error, reported with the line it opens on.
+ */
+export interface CsvRecord {
+    line: number;
+    fields: string[];
+}
+
+export function parseCsv(text: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+    let quoteLine = 1;
+
+    const endRecord = () => {
+        record.push(field);
+        if (record.length > 1 || record[0] !== '') {
+            records.push({ line: recordLine, fields: record });
+        }
+        record = [];
+        field = '';
+    };
+
+    for (let i = text[0] === '\uFEFF' ? 1 : 0; i < text.length; i += 1) {
+        const char = text[i];
+        if (char === '\n') {
+            line += 1;
+        }
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i += 1;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+            quoteLine = line;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n') {
+            endRecord();
+            recordLine = line;
+        } else if (char !== '\r') {
+            field += char;
+        }
+    }
+    if (quoted) {
+        throw new Error(
+            `Unterminated quoted field starting on line ${quoteLine}`,
+        );
+    }
+    if (field !== '' || record.length > 0) {
+        endRecord();
+    }
+    return records;
+}
+
+function toCsvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * EN: The row of a failure is the line of the CSV file its record starts on
+ */
+export interface ImportFailure {
+    row: number;
+    errors: ValidationError[];
+}
+
+export interface ImportReport {
+    total: number;
+    imported: number;
+    failed: number;
+    users: User[];
+    failures: ImportFailure[];
+}
+
+const USER_COLUMNS = [
+    'name', 'surname', 'email', 'phoneNumber', 'gender', 'isAdmin',
+    'streetName', 'number', 'city', 'zipCode', 'country',
+];
+
+const ADDRESS_COLUMNS = ['streetName', 'number', 'city', 'zipCode', 'country'];
+
+/**
+ * EN: Imports users from a CSV file with a header row. Every row goes
+ * through UserBuilder, so it gets the same validations as the fluent
+ * setters. Invalid rows don't stop the import: they are collected in the
+ * report, with their row number in the file (the header being row 1).
+ */
+export class UserImporter {
+    constructor(private builder: UserBuilder = new UserBuilder()) {
+    }
+
+    public import(csv: string): ImportReport {
+        const [headerRecord, ...records] = parseCsv(csv);
+        if (!headerRecord) {
+            throw new Error('The CSV file is empty');
+        }
+        const header = headerRecord.fields;
+        const unknown = header.filter(
+            column => USER_COLUMNS.indexOf(column) === -1,
+        );
+        if (unknown.length > 0) {
+            throw new Error(`Unknown CSV columns: ${unknown.join(', ')}`);
+        }
+
+        const report: ImportReport = {
+            total: records.length,
+            imported: 0,
+            failed: 0,
+            users: [],
+            failures: [],
+        };
+        records.forEach(({ line: rowNumber, fields: row }) => {
+            if (row.length !== header.length) {
+                const message =
+                    `Expected ${header.length} fields, got ${row.length}`;
+                report.failures.push({
+                    row: rowNumber,
+                    errors: [{ message, path: 'row' }],
+                });
+                return;
+            }
+            const cellErrors: ValidationError[] = [];
+            const result = this.builder
+                .reset()
+                .fill(this.toUserData(header, row, cellErrors))
+                .build();
+            if ('user' in result && cellErrors.length === 0) {
+                report.users.push(result.user);
+            } else {
+                report.failures.push({
+                    row: rowNumber,
+                    errors: cellErrors.concat(
+                        'errors' in result ? result.errors : [],
+                    ),
+                });
+            }
+        });
+        report.imported = report.users.length;
+        report.failed = report.failures.length;
+        return report;
+    }
+
+    /**
+     * EN: Imports a CSV file and writes its failures to an error file in CSV
+     * format. The error file is always rewritten, with just the header when
+     * nothing failed, and deleted when the file can't be imported at all, so
+     * it never shows the failures of an earlier import.
+     */
+    public async importFile(
+        filename: string,
+        errorFilename: string,
+    ): Promise<ImportReport> {
+        let report: ImportReport;
+        try {
+            report = this.import(await fs.readFile(filename, 'utf8'));
+        } catch (error) {
+            await fs.rm(errorFilename, { force: true });
+            throw error;
+        }
+        await fs.writeFile(errorFilename, this.formatErrors(report), 'utf8');
+        return report;
+    }
+
+    /**
+     * EN: One CSV line per error: row, field path and message
+     */
+    public formatErrors(report: ImportReport): string {
+        const lines = ['row,path,message'];
+        for (const failure of report.failures) {
+            for (const error of failure.errors) {
+                lines.push([failure.row, error.path, error.message]
+                    .map(toCsvField)
+                    .join(','));
+            }
+        }
+        return `${lines.join('\n')}\n`;
+    }
+
+    /**
+     * EN: Empty cells are left unset. The address is only set when at least
+     * one of its columns is filled. Cells that can't be converted are
+     * reported in cellErrors.
+     */
+    private toUserData(
+        header: string[],
+        row: string[],
+        cellErrors: ValidationError[],
+    ): UserData {
+        const cells: { [column: string]: string } = {};
+        header.forEach((column, i) => {
+            if (row[i].trim() !== '') {
+                cells[column] = row[i].trim();
+            }
+        });
+
+        const data: UserData = {
+            name: cells.name,
+            surname: cells.surname,
+            email: cells.email,
+            phoneNumber: cells.phoneNumber,
+            gender: cells.gender,
+        };
+        if (cells.isAdmin !== undefined) {
+            const isAdmin = cells.isAdmin.toLowerCase();
+            if (['true', 'yes', '1'].indexOf(isAdmin) !== -1) {
+                data.isAdmin = true;
+            } else if (['false', 'no', '0'].indexOf(isAdmin) !== -1) {
+                data.isAdmin = false;
+            } else {
+                cellErrors.push({
+                    path: 'isAdmin',
+                    message: 'Must be one of true, false, yes, no, 1 or 0',
+                });
+            }
+        }
+        if (ADDRESS_COLUMNS.some(column => cells[column] !== undefined)) {
+            data.address = {
+                streetName: cells.streetName || '',
+                number: Number(cells.number),
+                city: cells.city || '',
+                zipCode: cells.zipCode || '',
+                country: cells.country || '',
+            };
+        }
+        return data;
+    }
 }
 
 /**
@@ -159,7 +935,126 @@ const user2 = userBuilder
   .setAddress('Corner Case', 7, 'LA', '08080', 'US')
   .getProduct();
 
-const user3 = userBuilder
-  .setEmail('hugo.first@gmail.com')
+console.log(user2.address.toString());
+console.log(JSON.stringify(user2.address));
+console.log(user2.address.equals(
+    Address.create('corner case', 7, 'la', '08080', 'us'),
+));
+
+/**
+ * EN: Users can be exported, loaded again or edited through a prefilled
+ * builder. Logs get a redacted copy.
+ */
+const exported = JSON.stringify(user2);
+console.log(exported);
+console.log(JSON.stringify(toRedactedJSON(User.fromJSON(exported))));
+
+const legacyUser = User.fromJSON({
+    schemaVersion: 1,
+    name: 'Paige',
+    surname: 'Turner',
+    email: 'paige.turner@gmail.com',
+    address: 'Rue de Rivoli 99, Paris (75001) FR',
+});
+console.log(legacyUser.address.format());
+
+const editedUser = UserBuilder.from(user1)
+  .setPhoneNumber('+34555000111')
+  .getProduct();
+console.log(JSON.stringify(toRedactedJSON(editedUser)));
+
+/**
+ * EN: The director saves repeating the setter chains of common users
+ */
+const director = new UserDirector(userBuilder);
+const admin = director
+  .construct('admin', { name: 'Ada', surname: 'Min' })
+  .setEmail('ada.min@gmail.com')
+  .getProduct();
+console.log(JSON.stringify(toRedactedJSON(admin)));
+
+const agent = director
+  .construct(['supportAgent', 'guest'], { email: 'help@gmail.com' })
+  .getProduct();
+console.log(JSON.stringify(toRedactedJSON(agent)));
+
+/**
+ * EN: build() reports all the problems of a User at once, instead of
+ * stopping at the first one
+ */
+const result = userBuilder
+  .setEmail('hugo.first@gmail')
+  .setPhoneNumber('555-12')
+  .setAddress('Baker Street', 221, 'London', 'NW1 XE6', 'UK')
   .setIsAdmin()
+  .build();
+
+if ('errors' in result) {
+    for (const error of result.errors) {
+        console.log(`${error.path}: ${error.message}`);
+    }
+}
+
+/**
+ * EN: The staged builder catches missing parts at compile time
+ */
+const user4 = UserBuilder.staged()
+  .setName('Anna')
+  .setIsAdmin()
+  .setPhoneNumber('+34555121212')
+  .setSurname('Lytics')
   .getProduct();
+
+/**
+ * EN: Type tests: getProduct() is only part of the type of a complete build.
+ * Each assignment below fails to compile if that ever changes. The function
+ * is never called, it only needs to be type-checked.
+ */
+type HasGetProduct<T> = T extends { getProduct(): User } ? true : false;
+
+function stagedUserBuilderTypeTests() {
+    const missingSurnameAndContact = UserBuilder.staged().setName('Justin');
+    const missingName = UserBuilder.staged()
+      .setSurname('Case')
+      .setEmail('j@case.com');
+    const missingContact = UserBuilder.staged()
+      .setName('Justin')
+      .setSurname('Case');
+    const withGender = UserBuilder.staged()
+      .setName('Pat')
+      .setSurname('Roll')
+      .setMaleGender();
+    const complete = UserBuilder.staged()
+      .setName('Justin')
+      .setSurname('Case')
+      .setEmail('j@case.com');
+
+    const tests: [
+        HasGetProduct<typeof missingSurnameAndContact>,
+        HasGetProduct<typeof missingName>,
+        HasGetProduct<typeof missingContact>,
+        HasGetProduct<typeof withGender>,
+        HasGetProduct<typeof complete>
+    ] = [false, false, false, false, true];
+    return tests;
+}
+
+/**
+ * EN: Bulk imports report every invalid row instead of stopping at the first
+ * one
+ */
+const importer = new UserImporter();
+const importReport = importer.import([
+    'name,surname,email,phoneNumber,isAdmin,'
+        + 'streetName,number,city,zipCode,country',
+    'Justin,Case,justin.case@gmail.com,,yes,,,,,',
+    'Pat,Roll,,+34555989898,,Corner Case,7,LA,08080,US',
+    'Hugo,,hugo.first@gmail,,,,,,,',
+    '"Tess, Jr.",Ting,,555-12,,Gran Via,28,Madrid,99999,ES',
+    'Anna,Lytics,anna@gmail.com',
+].join('\n'));
+console.log(
+    `Imported ${importReport.imported} of ${importReport.total} users, `
+    + `${importReport.failed} failed`,
+);
+console.log(importer.formatErrors(importReport));
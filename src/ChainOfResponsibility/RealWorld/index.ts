@@ -8,6 +8,16 @@
  * request, it passes the request to the next handler in the chain.
  */
 
+import {
+    createHash,
+    createHmac,
+    randomBytes,
+    scrypt,
+    scryptSync,
+    timingSafeEqual,
+} from 'crypto';
+import { promisify } from 'util';
+
 /**
  * EN: The Handler interface declares a method for building the chain of
  * handlers. It also declares a method for executing a request.
@@ -20,12 +30,88 @@ interface Handler<Request = string, Result = string> {
 
     handle(request: Request): Result;
 }
+
+/**
+ * EN: The asynchronous variant of the Handler lets handlers await I/O, such as
+ * a user store lookup, before deciding whether to pass the request on. Each
+ * handler also reports a name, so that a chain can be inspected.
+ */
+interface AsyncHandler<Request = string, Result = string> {
+    getName(): string;
+
+    setNext(
+        handler: AsyncHandler<Request, Result>,
+    ): AsyncHandler<Request, Result>;
+
+    handle(request: Request): Promise<Result>;
+}
+
+/**
+ * EN: The HandlerChain links an ordered list of handlers and keeps that list,
+ * so the chain can be inspected and a single handler can be swapped by
+ * relinking only its neighbours.
+ */
+class HandlerChain<Request, Result> {
+    private handlers: AsyncHandler<Request, Result>[] = [];
+
+    constructor(handlers: AsyncHandler<Request, Result>[]) {
+        if (handlers.length === 0) {
+            throw new Error('A chain needs at least one handler.');
+        }
+        handlers.forEach(handler => this.append(handler));
+    }
+
+    public append(handler: AsyncHandler<Request, Result>): this {
+        const last = this.handlers[this.handlers.length - 1];
+        if (last) {
+            last.setNext(handler);
+        }
+        this.handlers.push(handler);
+        return this;
+    }
+
+    public getHandlerNames(): string[] {
+        return this.handlers.map(handler => handler.getName());
+    }
+
+    public getHandler(name: string): AsyncHandler<Request, Result> | undefined {
+        return this.handlers[this.indexOf(name)];
+    }
+
+    public replace(
+        name: string,
+        replacement: AsyncHandler<Request, Result>,
+    ): this {
+        const index = this.indexOf(name);
+        if (index === -1) {
+            throw new Error(`The chain has no handler named ${name}. `
+                + `Handlers: ${this.getHandlerNames().join(', ')}.`);
+        }
+        const previous = this.handlers[index - 1];
+        const next = this.handlers[index + 1];
+        replacement.setNext(next || null);
+        if (previous) {
+            previous.setNext(replacement);
+        }
+        this.handlers[index] = replacement;
+        return this;
+    }
+
+    public handle(request: Request): Promise<Result> {
+        return this.handlers[0].handle(request);
+    }
+
+    private indexOf(name: string): number {
+        return this.getHandlerNames().indexOf(name);
+    }
+}
+
 /**
  * EN: The AuthenticationHandler interface declares a method for authenticating
  * an HTTP request.
  */
 interface AuthenticationHandler
-    extends Handler<AuthenticationRequest, AuthenticationResult> { }
+    extends AsyncHandler<AuthenticationRequest, AuthenticationResult> { }
 
 /**
  * EN: The AuthenticationRequest represents an HTTP request that needs to be
@@ -38,6 +124,20 @@ type AuthenticationRequest = {
     };
     apiKey?: string;
     jwtToken?: string;
+    ip?: string;
+};
+
+/**
+ * EN: The Principal is the identity established by a successful
+ * authentication
+ */
+type AuthenticationMethod = 'basic' | 'api_key' | 'jwt';
+
+type Principal = {
+    id: string,
+    roles: string[],
+    method: AuthenticationMethod,
+    scopes?: string[],
 };
 
 /**
@@ -46,8 +146,24 @@ type AuthenticationRequest = {
  */
 type AuthenticationResult = {
     success: boolean,
-    message: string
-}
+    message: string,
+    reason?: string,
+    principal?: Principal,
+    retryAfterSeconds?: number,
+    trace?: AuthenticationDecision[],
+};
+
+/**
+ * EN: Every handler that sees a request records a decision about it. The
+ * trace lists these decisions in chain order, so a failed attempt shows
+ * what each handler did and why.
+ */
+type AuthenticationDecision = {
+    handler: string,
+    outcome: 'skipped' | 'rejected' | 'accepted',
+    message: string,
+    reason?: string,
+};
 
 /**
  * EN: The base AbstractAuthenticationHandler implements the default chaining
@@ -56,17 +172,291 @@ type AuthenticationResult = {
 abstract class AbstractAuthenticationHandler implements AuthenticationHandler {
     private nextHandler: AuthenticationHandler;
 
+    public getName(): string {
+        return this.constructor.name;
+    }
+
     public setNext(handler: AuthenticationHandler): AuthenticationHandler {
         this.nextHandler = handler;
         return handler;
     }
 
-    public handle(request: AuthenticationRequest): AuthenticationResult {
-        if (this.nextHandler) {
-            return this.nextHandler.handle(request);
+    public async handle(
+        request: AuthenticationRequest,
+    ): Promise<AuthenticationResult> {
+        return this.skip(request, 'Nothing to check.');
+    }
+
+    /**
+     * EN: Passes the request on and puts this handler's decision in front of
+     * the trace of the rest of the chain.
+     */
+    protected async skip(
+        request: AuthenticationRequest,
+        message: string,
+    ): Promise<AuthenticationResult> {
+        const result: AuthenticationResult = this.nextHandler
+            ? await this.nextHandler.handle(request)
+            : { success: false, message: 'Unable to authenticate user.' };
+        const decision: AuthenticationDecision = {
+            message,
+            handler: this.getName(),
+            outcome: 'skipped',
+        };
+        return { ...result, trace: [decision].concat(result.trace || []) };
+    }
+
+    /**
+     * EN: Ends the chain with the given result.
+     */
+    protected decide(result: AuthenticationResult): AuthenticationResult {
+        const decision: AuthenticationDecision = {
+            handler: this.getName(),
+            outcome: result.success ? 'accepted' : 'rejected',
+            message: result.message,
+        };
+        if (result.reason) {
+            decision.reason = result.reason;
+        }
+        return { ...result, trace: [decision] };
+    }
+}
+
+/**
+ * EN: The audit sink receives one event per authentication attempt. Events
+ * never include passwords, keys or tokens.
+ */
+type AuthenticationAuditEvent = {
+    timestamp: string,
+    success: boolean,
+    reason?: string,
+    ip?: string,
+    username?: string,
+    principalId?: string,
+    method?: AuthenticationMethod,
+    error?: string,
+    trace: AuthenticationDecision[],
+};
+
+interface AuditSink {
+    record(event: AuthenticationAuditEvent): Promise<void>;
+}
+
+class ConsoleAuditSink implements AuditSink {
+    public async record(event: AuthenticationAuditEvent): Promise<void> {
+        console.log(JSON.stringify(event));
+    }
+}
+
+class InMemoryAuditSink implements AuditSink {
+    public readonly events: AuthenticationAuditEvent[] = [];
+
+    public async record(event: AuthenticationAuditEvent): Promise<void> {
+        this.events.push(event);
+    }
+}
+
+/**
+ * EN: The AuthenticationChain reports every attempt to the audit sink,
+ * including attempts that end with an error in one of the handlers.
+ */
+class AuthenticationChain
+    extends HandlerChain<AuthenticationRequest, AuthenticationResult> {
+    constructor(
+        handlers: AuthenticationHandler[],
+        private auditSink: AuditSink,
+        private now: () => number = Date.now) {
+        super(handlers);
+    }
+
+    public async handle(
+        request: AuthenticationRequest,
+    ): Promise<AuthenticationResult> {
+        const event = {
+            timestamp: new Date(this.now()).toISOString(),
+            ip: request.ip,
+            username: request.user ? request.user.name : undefined,
+        };
+        let result: AuthenticationResult;
+        try {
+            result = await super.handle(request);
+        } catch (error) {
+            await this.auditSink.record({
+                ...event,
+                success: false,
+                reason: 'error',
+                error: error instanceof Error ? error.message : String(error),
+                trace: [],
+            });
+            throw error;
+        }
+        const { principal } = result;
+        await this.auditSink.record({
+            ...event,
+            success: result.success,
+            reason: result.reason,
+            principalId: principal ? principal.id : undefined,
+            method: principal ? principal.method : undefined,
+            trace: result.trace || [],
+        });
+        return result;
+    }
+}
+
+/**
+ * EN: Passwords are never stored, only their salted scrypt hashes
+ */
+type PasswordHash = {
+    salt: string,
+    hash: string,
+    keyLength: number,
+};
+
+function hashPassword(
+    password: string,
+    salt: string = randomBytes(16).toString('hex'),
+    keyLength: number = 64,
+): PasswordHash {
+    const hash = scryptSync(password, salt, keyLength).toString('hex');
+    return { salt, hash, keyLength };
+}
+
+const scryptAsync = promisify(scrypt);
+
+async function verifyPassword(
+    password: string,
+    stored: PasswordHash,
+): Promise<boolean> {
+    const expected = Buffer.from(stored.hash, 'hex');
+    const actual = await scryptAsync(
+        password,
+        stored.salt,
+        stored.keyLength,
+    ) as Buffer;
+    return actual.length === expected.length
+        && timingSafeEqual(actual, expected);
+}
+
+/**
+ * EN: The credential store is pluggable, e.g. to read users from a database
+ */
+interface CredentialStore {
+    getPasswordHash(username: string): Promise<PasswordHash | undefined>;
+
+    getRoles(username: string): Promise<string[]>;
+}
+
+class InMemoryCredentialStore implements CredentialStore {
+    private hashes = new Map<string, PasswordHash>();
+
+    private roles = new Map<string, string[]>();
+
+    public setPassword(
+        username: string,
+        password: string,
+        roles: string[] = [],
+    ): this {
+        this.hashes.set(username, hashPassword(password));
+        this.roles.set(username, roles);
+        return this;
+    }
+
+    public async getRoles(username: string): Promise<string[]> {
+        return this.roles.get(username) || [];
+    }
+
+    public async getPasswordHash(
+        username: string,
+    ): Promise<PasswordHash | undefined> {
+        return this.hashes.get(username);
+    }
+}
+
+/**
+ * EN: Tracks failed logins per username. After maxFailedAttempts failures
+ * within windowMs, the account is locked for lockoutMs. Each attempt is
+ * counted before its password is checked, so parallel guesses cannot all
+ * get past the limit while the hashes are computed. Both maps are kept in
+ * the order of their last update, so the failures that left the window and
+ * the lockouts that ended are pruned from the front.
+ */
+type LockoutOptions = {
+    maxFailedAttempts?: number,
+    windowMs?: number,
+    lockoutMs?: number,
+    now?: () => number,
+};
+
+class LoginAttemptTracker {
+    private failures = new Map<string, number[]>();
+
+    private lockedUntil = new Map<string, number>();
+
+    private maxFailedAttempts: number;
+
+    private windowMs: number;
+
+    private lockoutMs: number;
+
+    private now: () => number;
+
+    constructor(options: LockoutOptions = {}) {
+        this.maxFailedAttempts = options.maxFailedAttempts || 5;
+        this.windowMs = options.windowMs || 15 * 60 * 1000;
+        this.lockoutMs = options.lockoutMs || 15 * 60 * 1000;
+        this.now = options.now || Date.now;
+    }
+
+    /**
+     * EN: Returns false if the account is locked or already has as many
+     * failed and pending attempts as allowed.
+     */
+    public beginAttempt(username: string): boolean {
+        const now = this.now();
+        this.prune(now);
+        if ((this.lockedUntil.get(username) || 0) > now) {
+            return false;
         }
+        const recent = this.recent(username, now);
+        if (recent.length >= this.maxFailedAttempts) {
+            return false;
+        }
+        this.failures.delete(username);
+        this.failures.set(username, recent.concat(now));
+        return true;
+    }
+
+    public recordFailure(username: string) {
+        const now = this.now();
+        if (this.recent(username, now).length >= this.maxFailedAttempts) {
+            this.lockedUntil.delete(username);
+            this.lockedUntil.set(username, now + this.lockoutMs);
+            this.failures.delete(username);
+        }
+    }
 
-        return { success: false, message: 'Unable to authenticate user.' };
+    public recordSuccess(username: string) {
+        this.failures.delete(username);
+    }
+
+    private recent(username: string, now: number): number[] {
+        return (this.failures.get(username) || [])
+            .filter(time => now - time < this.windowMs);
+    }
+
+    private prune(now: number): void {
+        for (const [username, attempts] of Array.from(this.failures)) {
+            if (now - attempts[attempts.length - 1] < this.windowMs) {
+                break;
+            }
+            this.failures.delete(username);
+        }
+        for (const [username, until] of Array.from(this.lockedUntil)) {
+            if (until > now) {
+                break;
+            }
+            this.lockedUntil.delete(username);
+        }
     }
 }
 
@@ -78,36 +468,994 @@ abstract class AbstractAuthenticationHandler implements AuthenticationHandler {
  * следующему обработчику в цепочке.
  */
 class BasicAuthenticationHandler extends AbstractAuthenticationHandler {
-    public handle(request: AuthenticationRequest): AuthenticationResult {
+    /**
+     * EN: Unknown users are checked against this hash, so they take as long
+     * to reject as a wrong password.
+     */
+    private static readonly DUMMY_HASH = hashPassword('');
+
+    private attempts: LoginAttemptTracker;
+
+    constructor(
+        private credentials: CredentialStore,
+        lockoutOptions: LockoutOptions = {}) {
+        super();
+        this.attempts = new LoginAttemptTracker(lockoutOptions);
+    }
+
+    public async handle(
+        request: AuthenticationRequest,
+    ): Promise<AuthenticationResult> {
         const user = request.user;
-        if (user.name === 'admin' && user.password === 'password') {
-            return {
-                success: true,
-                message: 'User authenticated with basic authentication.'
-            };
+        if (!user) {
+            return this.skip(request, 'No username and password.');
+        }
+        if (typeof user.name !== 'string'
+            || typeof user.password !== 'string') {
+            return this.decide({
+                success: false,
+                message: 'Invalid username or password.',
+                reason: 'invalid_credentials',
+            });
+        }
+        if (!this.attempts.beginAttempt(user.name)) {
+            return this.decide({
+                success: false,
+                message: 'Account is temporarily locked after too many '
+                    + 'failed attempts.',
+                reason: 'account_locked',
+            });
+        }
+
+        const stored = await this.credentials.getPasswordHash(user.name);
+        const isValid = await verifyPassword(
+            user.password,
+            stored || BasicAuthenticationHandler.DUMMY_HASH,
+        );
+        if (!stored || !isValid) {
+            this.attempts.recordFailure(user.name);
+            return this.decide({
+                success: false,
+                message: 'Invalid username or password.',
+                reason: 'invalid_credentials',
+            });
+        }
+        this.attempts.recordSuccess(user.name);
+        return this.decide({
+            success: true,
+            message: 'User authenticated with basic authentication.',
+            principal: {
+                id: user.name,
+                roles: await this.credentials.getRoles(user.name),
+                method: 'basic',
+            },
+        });
+    }
+}
+
+/**
+ * EN: API keys look like 'ak_<16 hex digits>.<secret>'. The public prefix is
+ * used to look the key up, and only a SHA-256 hash of the whole key is
+ * stored, so the plain key is shown once, when it is issued.
+ */
+type ApiKeyRecord = {
+    prefix: string,
+    hash: string,
+    clientId: string,
+    scopes: string[],
+    expiresAt?: number,
+    revoked: boolean,
+};
+
+interface ApiKeyStore {
+    get(prefix: string): Promise<ApiKeyRecord | undefined>;
+
+    /**
+     * EN: Stores a new key and returns false if its prefix is already taken.
+     */
+    add(record: ApiKeyRecord): Promise<boolean>;
+
+    save(record: ApiKeyRecord): Promise<void>;
+}
+
+class InMemoryApiKeyStore implements ApiKeyStore {
+    private records = new Map<string, ApiKeyRecord>();
+
+    public async get(prefix: string): Promise<ApiKeyRecord | undefined> {
+        return this.records.get(prefix);
+    }
+
+    public async add(record: ApiKeyRecord): Promise<boolean> {
+        if (this.records.has(record.prefix)) {
+            return false;
+        }
+        this.records.set(record.prefix, record);
+        return true;
+    }
+
+    public async save(record: ApiKeyRecord): Promise<void> {
+        this.records.set(record.prefix, record);
+    }
+}
+
+type ApiKeyVerification =
+    | { status: 'valid', record: ApiKeyRecord }
+    | { status: 'invalid' | 'expired' | 'revoked' };
+
+type ApiKeyOptions = {
+    scopes?: string[],
+    ttlMs?: number,
+};
+
+function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+class ApiKeyManager {
+    constructor(
+        private store: ApiKeyStore,
+        private now: () => number = Date.now) { }
+
+    public async issue(
+        clientId: string,
+        options: ApiKeyOptions = {},
+    ): Promise<string> {
+        for (let attempt = 0; attempt < 3; attempt += 1) {
+            const prefix = `ak_${randomBytes(8).toString('hex')}`;
+            const key = `${prefix}.${base64UrlEncode(randomBytes(32))}`;
+            const added = await this.store.add({
+                prefix,
+                clientId,
+                hash: hashApiKey(key),
+                scopes: options.scopes || [],
+                expiresAt: options.ttlMs === undefined
+                    ? undefined
+                    : this.now() + options.ttlMs,
+                revoked: false,
+            });
+            if (added) {
+                return key;
+            }
+        }
+        throw new Error('Could not generate a unique API key prefix.');
+    }
+
+    public async verify(key: string): Promise<ApiKeyVerification> {
+        const record = await this.store.get(key.split('.')[0]);
+        if (!record) {
+            return { status: 'invalid' };
+        }
+        const expected = Buffer.from(record.hash, 'hex');
+        const actual = Buffer.from(hashApiKey(key), 'hex');
+        if (!timingSafeEqual(actual, expected)) {
+            return { status: 'invalid' };
+        }
+        if (record.revoked) {
+            return { status: 'revoked' };
+        }
+        if (record.expiresAt !== undefined && record.expiresAt <= this.now()) {
+            return { status: 'expired' };
+        }
+        return { record, status: 'valid' };
+    }
+
+    public async revoke(key: string): Promise<void> {
+        const record = await this.validRecord(key);
+        await this.store.save({ ...record, revoked: true });
+    }
+
+    /**
+     * EN: Issues a new key with the same client and scopes. The old key stays
+     * valid for the grace period, so clients can switch without downtime.
+     */
+    public async rotate(
+        key: string,
+        gracePeriodMs: number = 24 * 60 * 60 * 1000,
+        ttlMs?: number,
+    ): Promise<string> {
+        const record = await this.validRecord(key);
+        const graceEnd = this.now() + gracePeriodMs;
+        await this.store.save({
+            ...record,
+            expiresAt: record.expiresAt === undefined
+                ? graceEnd
+                : Math.min(record.expiresAt, graceEnd),
+        });
+        return this.issue(record.clientId, { ttlMs, scopes: record.scopes });
+    }
+
+    private async validRecord(key: string): Promise<ApiKeyRecord> {
+        const verification = await this.verify(key);
+        if (verification.status !== 'valid') {
+            throw new Error(
+                `Cannot change an API key that is ${verification.status}.`,
+            );
         }
-        return super.handle(request);
+        return verification.record;
     }
 }
 
 class ApiKeyAuthenticationHandler extends AbstractAuthenticationHandler {
-    public handle(request: AuthenticationRequest): AuthenticationResult {
-        if (request.apiKey === 'my-api-key') {
-            return {
-                success: true, message: 'User authenticated with API key.'
-            };
+    private static readonly FAILURES = {
+        invalid: 'API key is not valid.',
+        expired: 'API key has expired.',
+        revoked: 'API key has been revoked.',
+    };
+
+    constructor(private apiKeys: ApiKeyManager) {
+        super();
+    }
+
+    public async handle(
+        request: AuthenticationRequest,
+    ): Promise<AuthenticationResult> {
+        if (!request.apiKey) {
+            return this.skip(request, 'No API key.');
+        }
+        if (typeof request.apiKey !== 'string') {
+            return this.decide({
+                success: false,
+                message: ApiKeyAuthenticationHandler.FAILURES.invalid,
+                reason: 'api_key_invalid',
+            });
         }
-        return super.handle(request);
+        const verification = await this.apiKeys.verify(request.apiKey);
+        if (verification.status !== 'valid') {
+            return this.decide({
+                success: false,
+                message: ApiKeyAuthenticationHandler
+                    .FAILURES[verification.status],
+                reason: `api_key_${verification.status}`,
+            });
+        }
+        const { record } = verification;
+        return this.decide({
+            success: true,
+            message: 'User authenticated with API key.',
+            principal: {
+                id: record.clientId,
+                roles: [],
+                method: 'api_key',
+                scopes: record.scopes,
+            },
+        });
     }
 }
 
+/**
+ * EN: JWTs are verified as compact JWS tokens signed with HMAC (HS256, HS384
+ * or HS512). Time claims are checked with some clock skew, and the issuer
+ * and audience are enforced when configured. A token must name its subject,
+ * which becomes the principal's id.
+ */
+type JwtAlgorithm = 'HS256' | 'HS384' | 'HS512';
+
+const JWT_HASHES: { [algorithm in JwtAlgorithm]: string } = {
+    HS256: 'sha256',
+    HS384: 'sha384',
+    HS512: 'sha512',
+};
+
+type JwtClaims = {
+    iss?: string,
+    sub?: string,
+    aud?: string | string[],
+    exp?: number,
+    nbf?: number,
+    iat?: number,
+    [claim: string]: any,
+};
+
+type JwtFailureReason =
+    'malformed' | 'unsupported_algorithm' | 'invalid_signature' | 'expired'
+    | 'not_yet_valid' | 'issued_in_future' | 'invalid_issuer'
+    | 'invalid_audience' | 'missing_subject';
+
+type JwtVerification =
+    | { valid: true, claims: JwtClaims }
+    | { valid: false, reason: JwtFailureReason, message: string };
+
+type JwtVerificationOptions = {
+    secret: string | Buffer,
+    algorithms?: JwtAlgorithm[],
+    issuer?: string,
+    audience?: string,
+    clockSkewSeconds?: number,
+    now?: () => number,
+};
+
+function base64UrlEncode(data: string | Buffer): string {
+    const buffer = typeof data === 'string' ? Buffer.from(data) : data;
+    return buffer
+        .toString('base64')
+        .replace(/=+$/, '')
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_');
+}
+
+function base64UrlDecode(data: string): Buffer {
+    if (!/^[A-Za-z0-9_-]*$/.test(data)) {
+        throw new Error('Invalid base64url data');
+    }
+    return Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+function hmac(algorithm: JwtAlgorithm, secret: string | Buffer, data: string) {
+    return createHmac(JWT_HASHES[algorithm], secret).update(data).digest();
+}
+
+function signJwt(
+    claims: JwtClaims,
+    secret: string | Buffer,
+    algorithm: JwtAlgorithm = 'HS256',
+): string {
+    const header = base64UrlEncode(
+        JSON.stringify({ alg: algorithm, typ: 'JWT' }),
+    );
+    const payload = base64UrlEncode(JSON.stringify(claims));
+    const signature = hmac(algorithm, secret, `${header}.${payload}`);
+    return `${header}.${payload}.${base64UrlEncode(signature)}`;
+}
+
+function verifyJwt(
+    token: string,
+    options: JwtVerificationOptions,
+): JwtVerification {
+    const fail = (reason: JwtFailureReason, message: string): JwtVerification =>
+        ({ reason, message, valid: false });
+
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        return fail('malformed', 'Token must have three parts.');
+    }
+    let header: { alg?: JwtAlgorithm };
+    let claims: JwtClaims;
+    let signature: Buffer;
+    try {
+        header = JSON.parse(base64UrlDecode(parts[0]).toString('utf8'));
+        claims = JSON.parse(base64UrlDecode(parts[1]).toString('utf8'));
+        signature = base64UrlDecode(parts[2]);
+    } catch (error) {
+        return fail('malformed', 'Token is not valid base64url JSON.');
+    }
+    const isObject = (value: any) =>
+        value !== null && typeof value === 'object' && !Array.isArray(value);
+    if (!isObject(header) || !isObject(claims)) {
+        return fail('malformed', 'Token parts must be JSON objects.');
+    }
+
+    const algorithms = options.algorithms || ['HS256', 'HS384', 'HS512'];
+    const algorithm = header.alg;
+    if (algorithms.indexOf(algorithm) === -1 || !JWT_HASHES[algorithm]) {
+        return fail(
+            'unsupported_algorithm',
+            `Algorithm ${algorithm} is not allowed.`,
+        );
+    }
+    const expected = hmac(algorithm, options.secret, `${parts[0]}.${parts[1]}`);
+    if (signature.length !== expected.length
+        || !timingSafeEqual(signature, expected)) {
+        return fail('invalid_signature', 'Token signature does not match.');
+    }
+
+    for (const claim of ['exp', 'nbf', 'iat']) {
+        if (claims[claim] !== undefined && typeof claims[claim] !== 'number') {
+            return fail('malformed', `Claim ${claim} must be a number.`);
+        }
+    }
+    const now = (options.now ? options.now() : Date.now()) / 1000;
+    const skew = options.clockSkewSeconds === undefined
+        ? 30
+        : options.clockSkewSeconds;
+    if (claims.exp !== undefined && now - skew >= claims.exp) {
+        return fail('expired', 'Token has expired.');
+    }
+    if (claims.nbf !== undefined && now + skew < claims.nbf) {
+        return fail('not_yet_valid', 'Token is not valid yet.');
+    }
+    if (claims.iat !== undefined && now + skew < claims.iat) {
+        return fail('issued_in_future', 'Token was issued in the future.');
+    }
+
+    if (options.issuer !== undefined && claims.iss !== options.issuer) {
+        return fail(
+            'invalid_issuer',
+            `Token issuer must be ${options.issuer}.`,
+        );
+    }
+    if (options.audience !== undefined) {
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (audiences.indexOf(options.audience) === -1) {
+            return fail(
+                'invalid_audience',
+                `Token audience must include ${options.audience}.`,
+            );
+        }
+    }
+    if (typeof claims.sub !== 'string' || claims.sub === '') {
+        return fail('missing_subject', 'Token has no subject.');
+    }
+    return { claims, valid: true };
+}
+
+/**
+ * EN: Requests without a JWT are passed to the next handler, but a JWT that
+ * fails verification ends the chain with the reason of the failure.
+ */
 class JwtAuthenticationHandler extends AbstractAuthenticationHandler {
-    public handle(request: AuthenticationRequest): AuthenticationResult {
-        if (request.jwtToken === 'my-jwt-token') {
-            return {
-                success: true, message: 'User authenticated with JWT token.'
-            };
+    constructor(private options: JwtVerificationOptions) {
+        super();
+    }
+
+    public async handle(
+        request: AuthenticationRequest,
+    ): Promise<AuthenticationResult> {
+        if (!request.jwtToken) {
+            return this.skip(request, 'No JWT token.');
+        }
+        if (typeof request.jwtToken !== 'string') {
+            return this.decide({
+                success: false,
+                message: 'Invalid JWT token: Token must be a string.',
+                reason: 'malformed',
+            });
         }
-        return super.handle(request);
+        const verification = verifyJwt(request.jwtToken, this.options);
+        if ('reason' in verification) {
+            return this.decide({
+                success: false,
+                message: `Invalid JWT token: ${verification.message}`,
+                reason: verification.reason,
+            });
+        }
+        const { claims } = verification;
+        return this.decide({
+            success: true,
+            message: 'User authenticated with JWT token.',
+            principal: {
+                id: claims.sub,
+                roles: Array.isArray(claims.roles) ? claims.roles : [],
+                method: 'jwt',
+            },
+        });
+    }
+}
+
+/**
+ * EN: Rate limiters count attempts per key. Their state lives in a pluggable
+ * store, so that several servers can share it, and time comes from an
+ * injectable clock. The store applies each update atomically, otherwise
+ * parallel requests would all read the same state and pass the limit. After
+ * ttlMs without updates a state is as good as the initial one, so the store
+ * may drop it instead of keeping a state for every key it has ever seen.
+ */
+interface RateLimitStore {
+    update<State>(
+        key: string,
+        ttlMs: number,
+        change: (state: State | undefined) => State,
+    ): Promise<State>;
+}
+
+/**
+ * EN: Entries are kept in the order of their last update, so the expired
+ * ones are pruned from the front on each update.
+ */
+class InMemoryRateLimitStore implements RateLimitStore {
+    private states = new Map<string, { state: any, expiresAt: number }>();
+
+    constructor(private now: () => number = Date.now) {
+    }
+
+    public async update<State>(
+        key: string,
+        ttlMs: number,
+        change: (state: State | undefined) => State,
+    ): Promise<State> {
+        const now = this.now();
+        this.prune(now);
+        const entry = this.states.get(key);
+        const state = change(entry ? entry.state : undefined);
+        this.states.delete(key);
+        this.states.set(key, { state, expiresAt: now + ttlMs });
+        return state;
+    }
+
+    private prune(now: number): void {
+        for (const [key, { expiresAt }] of Array.from(this.states)) {
+            if (expiresAt > now) {
+                break;
+            }
+            this.states.delete(key);
+        }
+    }
+}
+
+type RateLimitDecision = {
+    allowed: boolean,
+    retryAfterMs: number,
+};
+
+interface RateLimiter {
+    consume(key: string): Promise<RateLimitDecision>;
+}
+
+type RateLimiterOptions = {
+    store?: RateLimitStore,
+    now?: () => number,
+};
+
+/**
+ * EN: The token bucket allows bursts of up to `capacity` attempts and then
+ * refills one token every `refillIntervalMs`.
+ */
+class TokenBucketRateLimiter implements RateLimiter {
+    private store: RateLimitStore;
+
+    private now: () => number;
+
+    constructor(
+        private capacity: number,
+        private refillIntervalMs: number,
+        options: RateLimiterOptions = {}) {
+        this.now = options.now || Date.now;
+        this.store = options.store || new InMemoryRateLimitStore(this.now);
+    }
+
+    public async consume(key: string): Promise<RateLimitDecision> {
+        const now = this.now();
+        let decision: RateLimitDecision;
+        await this.store.update<{ tokens: number, at: number }>(
+            `token-bucket:${key}`,
+            // EN: By then the bucket is full again.
+            this.capacity * this.refillIntervalMs,
+            (bucket = { tokens: this.capacity, at: now }) => {
+                const refilled = (now - bucket.at) / this.refillIntervalMs;
+                const tokens = Math.min(
+                    this.capacity,
+                    bucket.tokens + refilled,
+                );
+                if (tokens < 1) {
+                    decision = {
+                        allowed: false,
+                        retryAfterMs:
+                            Math.ceil((1 - tokens) * this.refillIntervalMs),
+                    };
+                    return { tokens, at: now };
+                }
+                decision = { allowed: true, retryAfterMs: 0 };
+                return { tokens: tokens - 1, at: now };
+            },
+        );
+        return decision;
+    }
+}
+
+/**
+ * EN: The sliding window allows at most `limit` attempts within any period
+ * of `windowMs`.
+ */
+class SlidingWindowRateLimiter implements RateLimiter {
+    private store: RateLimitStore;
+
+    private now: () => number;
+
+    constructor(
+        private limit: number,
+        private windowMs: number,
+        options: RateLimiterOptions = {}) {
+        this.now = options.now || Date.now;
+        this.store = options.store || new InMemoryRateLimitStore(this.now);
     }
-}
\ No newline at end of file
+
+    public async consume(key: string): Promise<RateLimitDecision> {
+        const now = this.now();
+        let decision: RateLimitDecision;
+        await this.store.update<number[]>(
+            `sliding-window:${key}`,
+            // EN: By then every attempt has left the window.
+            this.windowMs,
+            (previous = []) => {
+                const attempts = previous
+                    .filter(time => now - time < this.windowMs);
+                if (attempts.length >= this.limit) {
+                    decision = {
+                        allowed: false,
+                        retryAfterMs: attempts[0] + this.windowMs - now,
+                    };
+                    return attempts;
+                }
+                decision = { allowed: true, retryAfterMs: 0 };
+                return attempts.concat(now);
+            },
+        );
+        return decision;
+    }
+}
+
+/**
+ * EN: The RateLimitHandler can be placed anywhere in the chain. Requests
+ * without the chosen key are passed on, the rest are counted and stopped
+ * once the limit is reached. API keys are counted by their public prefix.
+ */
+type RateLimitKey = 'ip' | 'username' | 'apiKey';
+
+class RateLimitHandler extends AbstractAuthenticationHandler {
+    constructor(private limiter: RateLimiter, private keyBy: RateLimitKey) {
+        super();
+    }
+
+    public getName(): string {
+        return `${super.getName()}(${this.keyBy})`;
+    }
+
+    public async handle(
+        request: AuthenticationRequest,
+    ): Promise<AuthenticationResult> {
+        const key = this.getKey(request);
+        if (key === undefined) {
+            return this.skip(request, `No ${this.keyBy} to limit by.`);
+        }
+        const decision = await this.limiter.consume(`${this.keyBy}:${key}`);
+        if (!decision.allowed) {
+            const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+            return this.decide({
+                retryAfterSeconds,
+                success: false,
+                message: 'Too many attempts. Try again in '
+                    + `${retryAfterSeconds} seconds.`,
+                reason: 'too_many_attempts',
+            });
+        }
+        return this.skip(request, 'Within the rate limit.');
+    }
+
+    private getKey(request: AuthenticationRequest): string | undefined {
+        switch (this.keyBy) {
+        case 'ip':
+            return request.ip;
+        case 'username':
+            return request.user ? request.user.name : undefined;
+        case 'apiKey':
+            return request.apiKey && typeof request.apiKey === 'string'
+                ? request.apiKey.split('.')[0]
+                : undefined;
+        }
+    }
+}
+
+/**
+ * EN: Once a request is authenticated, a second chain decides whether its
+ * principal may perform an action on a resource. Each authorization handler
+ * applies the policies that match the request and either denies it or
+ * passes it on. A request is allowed only if some handler matched it and no
+ * handler denied it.
+ */
+type AuthorizationRequest = {
+    principal: Principal,
+    action: string,
+    resource: string,
+};
+
+type AuthorizationDenialReason =
+    'no_matching_policy' | 'missing_role' | 'missing_permission';
+
+type AuthorizationResult = {
+    allowed: boolean,
+    message: string,
+    reason?: AuthorizationDenialReason,
+};
+
+interface AuthorizationHandler
+    extends AsyncHandler<AuthorizationRequest, AuthorizationResult> { }
+
+/**
+ * EN: Policies list the actions and resources they apply to. A pattern is
+ * either '*', an exact name, or a prefix ending with '*', e.g. 'reports/*'.
+ */
+type AuthorizationPolicy = {
+    actions: string[],
+    resources: string[],
+};
+
+type RolePolicy = AuthorizationPolicy & { roles: string[] };
+
+type PermissionPolicy = AuthorizationPolicy & { permission: string };
+
+function matchesPattern(pattern: string, value: string): boolean {
+    if (pattern.slice(-1) === '*') {
+        return value.indexOf(pattern.slice(0, -1)) === 0;
+    }
+    return pattern === value;
+}
+
+function policyApplies(
+    policy: AuthorizationPolicy,
+    request: AuthorizationRequest,
+): boolean {
+    return policy.actions.some(action => matchesPattern(action, request.action))
+        && policy.resources.some(
+            resource => matchesPattern(resource, request.resource),
+        );
+}
+
+abstract class AbstractAuthorizationHandler implements AuthorizationHandler {
+    private nextHandler: AuthorizationHandler;
+
+    public getName(): string {
+        return this.constructor.name;
+    }
+
+    public setNext(handler: AuthorizationHandler): AuthorizationHandler {
+        this.nextHandler = handler;
+        return handler;
+    }
+
+    public async handle(
+        request: AuthorizationRequest,
+    ): Promise<AuthorizationResult> {
+        if (this.nextHandler) {
+            return this.nextHandler.handle(request);
+        }
+
+        return {
+            allowed: false,
+            message: `No policy allows ${request.action} on `
+                + `${request.resource}.`,
+            reason: 'no_matching_policy',
+        };
+    }
+
+    /**
+     * EN: A handler whose policies are satisfied still lets the rest of the
+     * chain deny the request.
+     */
+    protected async grant(
+        request: AuthorizationRequest,
+        message: string,
+    ): Promise<AuthorizationResult> {
+        if (this.nextHandler) {
+            const result = await this.nextHandler.handle(request);
+            if (result.reason !== 'no_matching_policy') {
+                return result;
+            }
+        }
+        return { message, allowed: true };
+    }
+}
+
+class RoleAuthorizationHandler extends AbstractAuthorizationHandler {
+    constructor(private policies: RolePolicy[]) {
+        super();
+    }
+
+    public async handle(
+        request: AuthorizationRequest,
+    ): Promise<AuthorizationResult> {
+        const policies = this.policies
+            .filter(policy => policyApplies(policy, request));
+        if (policies.length === 0) {
+            return super.handle(request);
+        }
+        const { roles } = request.principal;
+        for (const policy of policies) {
+            if (!policy.roles.some(role => roles.indexOf(role) !== -1)) {
+                return {
+                    allowed: false,
+                    message: `${request.action} on ${request.resource} `
+                        + 'requires one of the roles: '
+                        + `${policy.roles.join(', ')}.`,
+                    reason: 'missing_role',
+                };
+            }
+        }
+        return this.grant(request, 'Allowed by role.');
+    }
+}
+
+/**
+ * EN: Permissions are granted to roles, and a principal holds the
+ * permissions of all its roles. Principals authenticated with an API key
+ * also hold the scopes of that key.
+ */
+type RolePermissions = { [role: string]: string[] };
+
+class PermissionAuthorizationHandler extends AbstractAuthorizationHandler {
+    constructor(
+        private rolePermissions: RolePermissions,
+        private policies: PermissionPolicy[]) {
+        super();
+    }
+
+    public async handle(
+        request: AuthorizationRequest,
+    ): Promise<AuthorizationResult> {
+        const policies = this.policies
+            .filter(policy => policyApplies(policy, request));
+        if (policies.length === 0) {
+            return super.handle(request);
+        }
+        const { roles, scopes } = request.principal;
+        const permissions = roles
+            .filter(role => this.rolePermissions.hasOwnProperty(role))
+            .map(role => this.rolePermissions[role])
+            .reduce((all, granted) => all.concat(granted), scopes || []);
+        for (const policy of policies) {
+            if (permissions.indexOf(policy.permission) === -1) {
+                return {
+                    allowed: false,
+                    message: `${request.action} on ${request.resource} `
+                        + `requires the permission ${policy.permission}.`,
+                    reason: 'missing_permission',
+                };
+            }
+        }
+        return this.grant(request, 'Allowed by permission.');
+    }
+}
+
+/**
+ * EN: The client code builds the chain once from a list of handlers and sends
+ * every request through it.
+ */
+const JWT_SECRET = 'change-me-to-a-long-random-secret';
+
+const credentials = new InMemoryCredentialStore()
+    .setPassword('admin', 'correct horse battery staple', ['admin']);
+let currentTime = Date.now();
+const apiKeys = new ApiKeyManager(new InMemoryApiKeyStore(), () => currentTime);
+const rateLimiterOptions = { now: () => currentTime };
+const auditSink = new InMemoryAuditSink();
+const authenticationHandlers = [
+    new RateLimitHandler(
+        new SlidingWindowRateLimiter(5, 60 * 1000, rateLimiterOptions),
+        'ip',
+    ),
+    new JwtAuthenticationHandler({
+        secret: JWT_SECRET,
+        issuer: 'https://auth.example.com',
+        audience: 'api',
+    }),
+    new ApiKeyAuthenticationHandler(apiKeys),
+    new RateLimitHandler(
+        new TokenBucketRateLimiter(5, 60 * 1000, rateLimiterOptions),
+        'username',
+    ),
+    new BasicAuthenticationHandler(credentials, { maxFailedAttempts: 3 }),
+];
+const authenticationChain = new AuthenticationChain(
+    authenticationHandlers,
+    auditSink,
+);
+const authorizationChain = new HandlerChain([
+    new RoleAuthorizationHandler([
+        { actions: ['*'], resources: ['admin/*'], roles: ['admin'] },
+    ]),
+    new PermissionAuthorizationHandler(
+        {
+            admin: ['reports:read', 'reports:write'],
+            editor: ['reports:read'],
+        },
+        [
+            {
+                actions: ['read'],
+                resources: ['reports/*'],
+                permission: 'reports:read',
+            },
+            {
+                actions: ['write', 'delete'],
+                resources: ['reports/*'],
+                permission: 'reports:write',
+            },
+        ],
+    ),
+]);
+
+const nowInSeconds = Math.floor(Date.now() / 1000);
+const claims: JwtClaims = {
+    sub: 'user-1',
+    iss: 'https://auth.example.com',
+    aud: 'api',
+    iat: nowInSeconds,
+    roles: ['editor'],
+};
+const validToken = signJwt({ ...claims, exp: nowInSeconds + 3600 }, JWT_SECRET);
+const expiredToken = signJwt(
+    { ...claims, iat: nowInSeconds - 7200, exp: nowInSeconds - 3600 },
+    JWT_SECRET,
+    'HS512',
+);
+const forgedToken = signJwt({ sub: 'admin' }, 'guessed-secret');
+
+const requests: AuthenticationRequest[] = [
+    { user: { name: 'admin', password: 'correct horse battery staple' } },
+    { user: { name: 'admin', password: 'password' } },
+    { user: { name: 'admin', password: '123456' } },
+    { user: { name: 'admin', password: 'qwerty' } },
+    { user: { name: 'admin', password: 'correct horse battery staple' } },
+    {},
+    { jwtToken: validToken },
+    { jwtToken: expiredToken },
+    { jwtToken: forgedToken },
+    { jwtToken: 'not-a-jwt' },
+];
+async function main() {
+    const reportingKey = await apiKeys.issue('reporting-service', {
+        scopes: ['reports:read'],
+        ttlMs: 30 * 24 * 60 * 60 * 1000,
+    });
+    const revokedKey = await apiKeys.issue('legacy-service');
+    await apiKeys.revoke(revokedKey);
+    requests.push(
+        { apiKey: reportingKey },
+        { apiKey: revokedKey },
+        { apiKey: 'ak_0000000000000000.guessed-secret' },
+    );
+
+    console.log(authenticationChain.getHandlerNames());
+    const principals: Principal[] = [];
+    for (const request of requests) {
+        const result = await authenticationChain.handle(request);
+        console.log(result);
+        if (result.principal) {
+            principals.push(result.principal);
+        }
+    }
+
+    const actions = [
+        { action: 'read', resource: 'reports/2024' },
+        { action: 'delete', resource: 'reports/2024' },
+        { action: 'update', resource: 'admin/settings' },
+        { action: 'read', resource: 'billing/invoices' },
+    ];
+    for (const principal of principals) {
+        for (const { action, resource } of actions) {
+            const result = await authorizationChain.handle({
+                principal,
+                action,
+                resource,
+            });
+            console.log(`${principal.id} ${action} ${resource}:`, result);
+        }
+    }
+
+    const otherCredentials = new InMemoryCredentialStore()
+        .setPassword('operator', 'tr0ub4dor&3');
+    authenticationChain.replace(
+        'BasicAuthenticationHandler',
+        new BasicAuthenticationHandler(otherCredentials),
+    );
+    console.log(await authenticationChain.handle({
+        user: { name: 'operator', password: 'tr0ub4dor&3' },
+    }));
+
+    const rotatedKey = await apiKeys.rotate(reportingKey, 60 * 60 * 1000);
+    currentTime += 30 * 60 * 1000;
+    console.log(await authenticationChain.handle({ apiKey: reportingKey }));
+    console.log(await authenticationChain.handle({ apiKey: rotatedKey }));
+    currentTime += 60 * 60 * 1000;
+    console.log(await authenticationChain.handle({ apiKey: reportingKey }));
+    console.log(await authenticationChain.handle({ apiKey: rotatedKey }));
+
+    for (const name of ['alice', 'bob', 'carol', 'dave', 'erin', 'frank']) {
+        console.log(await authenticationChain.handle({
+            ip: '198.51.100.23',
+            user: { name, password: 'password' },
+        }));
+    }
+    for (const password of ['1', '2', '3', '4', '5', '6']) {
+        console.log(await authenticationChain.handle({
+            user: { password, name: 'operator' },
+        }));
+    }
+
+    console.log(`${auditSink.events.length} attempts were audited, the last:`);
+    await new ConsoleAuditSink().record(
+        auditSink.events[auditSink.events.length - 1],
+    );
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});